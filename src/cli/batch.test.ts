@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { batchFilenames, parseBatch } from "./batch";
+
+describe("parseBatch", () => {
+  it("parses CSV rows, with quoted fields", () => {
+    const csv =
+      'name,height,profile\nbud,120,"1,0.8,0.6,0.8,1"\n,50,straight\n';
+    expect(parseBatch("vases.csv", csv)).toEqual([
+      { name: "bud", height: "120", profile: "1,0.8,0.6,0.8,1" },
+      { name: "", height: "50", profile: "straight" },
+    ]);
+  });
+
+  it("parses JSON arrays of objects", () => {
+    expect(parseBatch("vases.json", '[{"height": 120}]')).toEqual([
+      { height: 120 },
+    ]);
+    expect(() => parseBatch("vases.json", '{"height": 120}')).toThrow();
+  });
+
+  it("rejects other files", () => {
+    expect(() => parseBatch("vases.txt", "")).toThrow("Unsupported");
+  });
+});
+
+describe("batchFilenames", () => {
+  const output = (derived: string, name?: string, extension = "3mf") => ({
+    name,
+    derived,
+    extension,
+  });
+
+  it("names the files after the rows' names, or their parameters", () => {
+    expect(batchFilenames([output("cylinder", "bud"), output("cone")])).toEqual(
+      ["bud.3mf", "cone.3mf"],
+    );
+  });
+
+  it("numbers the files of rows with the same derived name", () => {
+    expect(
+      batchFilenames([output("cylinder"), output("cone"), output("cylinder")]),
+    ).toEqual(["cylinder-1.3mf", "cone.3mf", "cylinder-3.3mf"]);
+  });
+
+  it("tells formats apart", () => {
+    expect(
+      batchFilenames([
+        output("cylinder"),
+        output("cylinder", undefined, "stl"),
+      ]),
+    ).toEqual(["cylinder.3mf", "cylinder.stl"]);
+  });
+
+  it("numbers derived names taken by a named row", () => {
+    expect(
+      batchFilenames([output("cone", "cylinder"), output("cylinder")]),
+    ).toEqual(["cylinder.3mf", "cylinder-2.3mf"]);
+  });
+
+  it("rejects rows with the same name", () => {
+    expect(() =>
+      batchFilenames([output("a", "vase"), output("b"), output("c", "vase")]),
+    ).toThrow("rows 1 and 3 both write vase.3mf");
+  });
+
+  it("rejects names outside of the output directory", () => {
+    ["../vase", "models/vase", "C:\\vase", "..", "."].forEach((name) =>
+      expect(() => batchFilenames([output("cylinder", name)])).toThrow(
+        `row 1: Invalid name: ${name}`,
+      ),
+    );
+  });
+});
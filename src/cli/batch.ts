@@ -0,0 +1,155 @@
+import { extname } from "node:path";
+
+import { UsageError } from "./options";
+
+// Batch files describe several models, one per row (CSV) or per object (JSON).
+// The columns/keys are the model parameters (either as option or parameter
+// names, e.g. "outer-radius" or "outerRadius"), plus optionally:
+//  * "name": the output filename (without extension nor directory)
+//  * "format": the export format
+
+export type BatchRow = Record<string, unknown>;
+
+// Parses the content of a batch file, based on its extension
+export function parseBatch(filename: string, content: string): BatchRow[] {
+  const ext = extname(filename).toLowerCase();
+  if (ext === ".json") {
+    return parseJson(content);
+  }
+
+  if (ext === ".csv") {
+    return parseCsv(content);
+  }
+
+  throw new Error(
+    `Unsupported batch file (expected .json or .csv): ${filename}`,
+  );
+}
+
+// Parses a JSON array of objects
+function parseJson(content: string): BatchRow[] {
+  const rows: unknown = JSON.parse(content);
+  if (
+    !Array.isArray(rows) ||
+    !rows.every((row) => typeof row === "object" && row !== null)
+  ) {
+    throw new Error("Expected a JSON array of objects");
+  }
+
+  return rows as BatchRow[];
+}
+
+// Parses CSV where the first line is the header. Fields may be quoted (e.g. for
+// profiles, "0.75,1,0.85,0.55,0.6") with quotes escaped as "".
+function parseCsv(content: string): BatchRow[] {
+  const lines = csvRecords(content).filter(
+    (fields) => !(fields.length === 1 && fields[0].trim() === ""),
+  );
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const [header, ...records] = lines;
+  const columns = header.map((column) => column.trim());
+
+  return records.map((fields, i) => {
+    if (fields.length !== columns.length) {
+      throw new Error(
+        `Line ${i + 2}: expected ${columns.length} fields, got ${fields.length}`,
+      );
+    }
+
+    return Object.fromEntries(
+      columns.map((column, j) => [column, fields[j].trim()]),
+    );
+  });
+}
+
+// A row's output file: its name (if given), else the name derived from its
+// parameters (see modelBasename), with the format's extension
+export type BatchOutput = {
+  name?: string;
+  derived: string;
+  extension: string;
+};
+
+// The output filenames of the rows (within the output directory). Derived
+// names shared by several rows (e.g. rows differing only in parameters left
+// out of the name) are suffixed with the row's number. Throws if a name isn't
+// a plain filename, or if two rows would write the same file.
+export function batchFilenames(outputs: BatchOutput[]): string[] {
+  outputs.forEach(({ name }, i) => {
+    if (name !== undefined && (/[\\/]/.test(name) || /^\.+$/.test(name))) {
+      throw new UsageError(`row ${i + 1}: Invalid name: ${name}`);
+    }
+  });
+
+  const filename = (name: string, extension: string) => `${name}.${extension}`;
+  const counts = new Map<string, number>();
+  outputs.forEach(({ name, derived, extension }) => {
+    const file = filename(name ?? derived, extension);
+    counts.set(file, (counts.get(file) ?? 0) + 1);
+  });
+
+  const filenames = outputs.map(({ name, derived, extension }, i) =>
+    name !== undefined || counts.get(filename(derived, extension)) === 1
+      ? filename(name ?? derived, extension)
+      : filename(`${derived}-${i + 1}`, extension),
+  );
+
+  const rows = new Map<string, number>();
+  filenames.forEach((file, i) => {
+    const row = rows.get(file);
+    if (row !== undefined) {
+      throw new UsageError(`rows ${row + 1} and ${i + 1} both write ${file}`);
+    }
+    rows.set(file, i);
+  });
+
+  return filenames;
+}
+
+// Splits CSV content into records and fields
+function csvRecords(content: string): string[][] {
+  const records: string[][] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const c = content[i];
+
+    if (quoted) {
+      if (c === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+      continue;
+    }
+
+    if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n") {
+      fields.push(field.replace(/\r$/, ""));
+      records.push(fields);
+      fields = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+
+  if (field !== "" || fields.length > 0) {
+    fields.push(field.replace(/\r$/, ""));
+    records.push(fields);
+  }
+
+  return records;
+}
@@ -0,0 +1,152 @@
+#!/usr/bin/env node
+
+// Headless vase generator, e.g.:
+//
+//   flowwer-vase generate --height 120 --outer-radius 40 --wall 2 --format 3mf -o out.3mf
+//   flowwer-vase batch vases.csv --out-dir models/
+
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+
+import { arrange, vaseParts, type VaseParams } from "../model/manifold";
+import {
+  EXPORT_FORMATS,
+  exportModel,
+  type ExportFormat,
+} from "../model/export";
+import { modelBasename } from "../model/filename";
+import { DEFAULT_PARAMS } from "../model/params";
+import { PROFILE_PRESETS } from "../model/profile";
+import { batchFilenames, parseBatch } from "./batch";
+import { PARAM_OPTIONS, UsageError, parseParams } from "./options";
+
+const USAGE = `Usage:
+  flowwer-vase generate [options] [-o <file>]
+  flowwer-vase batch <file.json|file.csv> [options] [--out-dir <dir>]
+
+Options:
+  --format <format>           ${Object.keys(EXPORT_FORMATS).join(", ")} (default: 3mf)
+  -o, --output <file>         output file (generate, default: derived from the parameters)
+  --out-dir <dir>             output directory (batch, default: .)
+  -h, --help                  show this help
+
+Model parameters (lengths in mm; in batch mode, these are the defaults for every row):
+${Object.keys(PARAM_OPTIONS)
+  .map((option) => `  --${option} <value>`)
+  .join("\n")}
+
+Profiles are either a preset (${Object.keys(PROFILE_PRESETS).join(", ")}) or
+comma-separated radius ratios from bottom to top, e.g. 0.75,1,0.85,0.55,0.6.`;
+
+const warn = (message: string) => console.warn(`warning: ${message}`);
+
+function parseFormat(value: unknown): ExportFormat {
+  const format = value ?? "3mf";
+  if (typeof format !== "string" || !(format in EXPORT_FORMATS)) {
+    throw new UsageError(`Unknown format: ${String(format)}`);
+  }
+  return format as ExportFormat;
+}
+
+// Generates the model and writes it to the given file
+async function generate(
+  params: VaseParams,
+  format: ExportFormat,
+  filename: string,
+) {
+  const blob = exportModel(arrange(await vaseParts(params), "print"), format, {
+    params,
+  });
+  await writeFile(filename, new Uint8Array(await blob.arrayBuffer()));
+  console.log(filename);
+}
+
+async function main(args: string[]) {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...Object.fromEntries(
+        Object.keys(PARAM_OPTIONS).map((option) => [
+          option,
+          { type: "string" } as const,
+        ]),
+      ),
+      format: { type: "string" },
+      output: { type: "string", short: "o" },
+      "out-dir": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, ...rest] = positionals;
+  if (values.help || command === undefined) {
+    console.log(USAGE);
+    return;
+  }
+
+  const { format, output, "out-dir": outDir, help: _, ...options } = values;
+  const base: VaseParams = { ...DEFAULT_PARAMS, ...parseParams(options, warn) };
+
+  if (command === "generate") {
+    if (rest.length > 0) {
+      throw new UsageError(`Unexpected argument: ${rest[0]}`);
+    }
+
+    const fmt = parseFormat(format);
+    const filename =
+      output ?? `${modelBasename(base)}.${EXPORT_FORMATS[fmt].extension}`;
+    await generate(base, fmt, filename);
+    return;
+  }
+
+  if (command === "batch") {
+    if (rest.length !== 1) {
+      throw new UsageError("Expected a single batch file");
+    }
+
+    const [file] = rest;
+    const rows = parseBatch(file, await readFile(file, "utf8"));
+    const dir = outDir ?? ".";
+    await mkdir(dir, { recursive: true });
+
+    // All rows are checked before any model is generated
+    const models = rows.map(({ name, format: rowFormat, ...row }, i) => {
+      const rowWarn = (message: string) => warn(`row ${i + 1}: ${message}`);
+      try {
+        const params = { ...base, ...parseParams(row, rowWarn) };
+        const fmt = parseFormat(rowFormat || format);
+        return { name, params, fmt };
+      } catch (e) {
+        throw new UsageError(`row ${i + 1}: ${(e as Error).message}`);
+      }
+    });
+    const filenames = batchFilenames(
+      models.map(({ name, params, fmt }) => ({
+        name: typeof name === "string" && name !== "" ? name : undefined,
+        derived: modelBasename(params),
+        extension: EXPORT_FORMATS[fmt].extension,
+      })),
+    );
+
+    for (const [i, { params, fmt }] of models.entries()) {
+      await generate(params, fmt, join(dir, filenames[i]));
+    }
+    return;
+  }
+
+  throw new UsageError(`Unknown command: ${command}`);
+}
+
+main(process.argv.slice(2)).catch((e) => {
+  if (
+    e instanceof UsageError ||
+    (e as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")
+  ) {
+    console.error(`error: ${(e as Error).message}\n\n${USAGE}`);
+  } else {
+    console.error(e);
+  }
+  process.exit(1);
+});
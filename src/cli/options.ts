@@ -0,0 +1,100 @@
+import type { VaseParams } from "../model/manifold";
+import { validateParams } from "../model/params";
+import { PROFILE_PRESETS } from "../model/profile";
+
+// Model parameters as command line options, e.g. "outerRadius" becomes
+// "--outer-radius"
+
+export const PARAM_OPTIONS: Record<string, keyof VaseParams> = {
+  height: "height",
+  "outer-radius": "outerRadius",
+  "wall-thickness": "wallThickness",
+  wall: "wallThickness",
+  "closed-bottom": "closedBottom",
+  profile: "profile",
+  section: "section",
+  sides: "sides",
+  "star-ratio": "starRatio",
+  "corner-radius": "cornerRadius",
+  twist: "twist",
+  "scale-top": "scaleTop",
+  "spiral-mode": "spiralMode",
+  "bottom-thickness": "bottomThickness",
+  "nozzle-width": "nozzleWidth",
+  "chord-error": "chordError",
+  "drainage-holes": "drainageHoles",
+  "drainage-hole-diameter": "drainageHoleDiameter",
+  "drainage-ring-radius": "drainageRingRadius",
+  saucer: "saucer",
+  "saucer-clearance": "saucerClearance",
+  "saucer-lip-height": "saucerLipHeight",
+  text: "text",
+  "text-mode": "textMode",
+  "text-size": "textSize",
+  "text-depth": "textDepth",
+  "text-position": "textPosition",
+  "text-angle": "textAngle",
+  texture: "texture",
+  "texture-amplitude": "textureAmplitude",
+  "texture-count": "textureCount",
+  "texture-rows": "textureRows",
+  "texture-phase": "texturePhase",
+  liner: "liner",
+  "liner-clearance": "linerClearance",
+  "liner-notch": "linerNotch",
+  lid: "lid",
+  "lid-interference": "lidInterference",
+  "lid-clearance": "lidClearance",
+  "thread-pitch": "threadPitch",
+  "thread-turns": "threadTurns",
+  "thread-tolerance": "threadTolerance",
+  frog: "frog",
+  "frog-holes": "frogHoles",
+  "frog-hole-diameter": "frogHoleDiameter",
+  "frog-thickness": "frogThickness",
+};
+
+// An error in the user's input, reported without a stack trace
+export class UsageError extends Error {}
+
+// Validates raw parameters (from the command line or a batch file) given by
+// option name or parameter name. Invalid values are errors (so that a typo
+// doesn't silently produce the wrong model) and clamped values are reported
+// through `warn`.
+export function parseParams(
+  input: Record<string, unknown>,
+  warn: (message: string) => void,
+): Partial<VaseParams> {
+  const raw: Record<string, unknown> = {};
+  const names: Record<string, string> = {};
+  Object.entries(input).forEach(([name, value]) => {
+    if (value === undefined || value === "") return;
+
+    const key = PARAM_OPTIONS[name] ?? name;
+    names[key] = name;
+    // Profiles may be given by preset name, e.g. "bulb"
+    raw[key] =
+      key === "profile" && typeof value === "string" && value in PROFILE_PRESETS
+        ? PROFILE_PRESETS[value as keyof typeof PROFILE_PRESETS]
+        : value;
+  });
+
+  const params = validateParams(raw);
+
+  Object.entries(raw).forEach(([key, value]) => {
+    const valid = params[key as keyof VaseParams];
+    if (valid === undefined) {
+      throw new UsageError(`Invalid value for ${names[key]}: ${String(value)}`);
+    }
+
+    if (typeof valid === "number" && Number(value) !== valid) {
+      warn(`${names[key]} ${String(value)} is out of range, using ${valid}`);
+    }
+
+    if (typeof valid === "string" && value !== valid) {
+      warn(`${names[key]} "${String(value)}" was changed to "${valid}"`);
+    }
+  });
+
+  return params;
+}
@@ -9,6 +9,8 @@ export const rangeControl = (
     max: string;
     sliderMin: string;
     sliderMax: string;
+    step?: string;
+    unit?: string; // defaults to "mm"
   },
 ): {
   wrapper: HTMLElement;
@@ -22,6 +24,7 @@ export const rangeControl = (
       id={`${id}-range`}
       min={opts.min}
       max={opts.max}
+      step={opts.step ?? "1"}
     />
   ) as HTMLInputElement;
 
@@ -32,14 +35,22 @@ export const rangeControl = (
       name={id}
       min={opts.sliderMin}
       max={opts.sliderMax}
+      step={opts.step ?? "1"}
     />
   ) as HTMLInputElement;
 
+  const value = (
+    <div className="range-input-value">{input}</div>
+  ) as HTMLElement;
+  if (opts.unit !== undefined) {
+    value.dataset.unit = opts.unit;
+  }
+
   const wrapper = (
     <div className="range-input-wrapper">
       <label htmlFor={id}>{opts.name}</label>
       {range}
-      <div className="range-input-value">{input}</div>
+      {value}
     </div>
   );
 
@@ -64,7 +75,9 @@ export const checkbox = (
   id: string,
   opts: { label: string; checked?: boolean },
 ) => {
-  const input = <input type="checkbox" id={id} name={id} /> as HTMLInputElement;
+  const input = (
+    <input type="checkbox" id={id} name={id} />
+  ) as HTMLInputElement;
   if (opts.checked) {
     input.checked = true;
   }
@@ -76,3 +89,54 @@ export const checkbox = (
     </div>
   );
 };
+
+export const textInput = (
+  id: string,
+  opts: { label: string; maxLength: number; placeholder?: string },
+): { wrapper: HTMLElement; input: HTMLInputElement } => {
+  const input = (
+    <input
+      type="text"
+      id={id}
+      name={id}
+      maxLength={opts.maxLength}
+      placeholder={opts.placeholder ?? ""}
+      autocomplete="off"
+    />
+  ) as HTMLInputElement;
+
+  const wrapper = (
+    <div className="text-input-wrapper">
+      <label htmlFor={id}>{opts.label}</label>
+      {input}
+    </div>
+  );
+
+  return { wrapper, input };
+};
+
+export const select = (
+  id: string,
+  opts: {
+    label: string;
+    options: { value: string; label: string }[];
+    selected?: string;
+  },
+): { wrapper: HTMLElement; input: HTMLSelectElement } => {
+  const input = (<select id={id} name={id}></select>) as HTMLSelectElement;
+  opts.options.forEach(({ value, label }) => {
+    input.append(<option value={value}>{label}</option>);
+  });
+  if (opts.selected !== undefined) {
+    input.value = opts.selected;
+  }
+
+  const wrapper = (
+    <div className="select-wrapper">
+      <label htmlFor={id}>{opts.label}</label>
+      {input}
+    </div>
+  );
+
+  return { wrapper, input };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import { History } from "./history";
+
+describe("History", () => {
+  it("starts with nothing to undo or redo", () => {
+    const history = new History(0);
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(false);
+    expect(history.undo()).toBeUndefined();
+    expect(history.redo()).toBeUndefined();
+  });
+
+  it("undoes & redoes the recorded states", () => {
+    const history = new History("a");
+    history.record("b");
+    history.record("c");
+
+    expect(history.undo()).toBe("b");
+    expect(history.undo()).toBe("a");
+    expect(history.canUndo).toBe(false);
+
+    expect(history.redo()).toBe("b");
+    expect(history.redo()).toBe("c");
+    expect(history.canRedo).toBe(false);
+  });
+
+  it("ignores states equal to the current one", () => {
+    const history = new History({ height: 50, profile: [1, 1] });
+    history.record({ height: 50, profile: [1, 1] });
+    expect(history.canUndo).toBe(false);
+
+    history.record({ height: 60, profile: [1, 1] });
+    history.record({ height: 60, profile: [1, 1] });
+    expect(history.undo()).toEqual({ height: 50, profile: [1, 1] });
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("discards the undone states when a new state is recorded", () => {
+    const history = new History(1);
+    history.record(2);
+    history.record(3);
+    history.undo();
+    history.record(4);
+
+    expect(history.canRedo).toBe(false);
+    expect(history.undo()).toBe(2);
+  });
+
+  it("keeps the redo steps when the current state is recorded again", () => {
+    const history = new History(1);
+    history.record(2);
+    history.undo();
+    history.record(1); // e.g. the parameters being set to the undone state
+    expect(history.redo()).toBe(2);
+  });
+
+  it("forgets the oldest states past the limit", () => {
+    const history = new History(0, 3);
+    [1, 2, 3, 4, 5].forEach((state) => history.record(state));
+
+    expect(history.undo()).toBe(4);
+    expect(history.undo()).toBe(3);
+    expect(history.undo()).toBe(2);
+    expect(history.canUndo).toBe(false);
+  });
+});
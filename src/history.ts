@@ -0,0 +1,59 @@
+// An undo/redo history of states (e.g. the model parameters). States are
+// compared by value (through their JSON serialization), so recording the
+// current state again is a no-op.
+export class History<T> {
+  private past: T[] = [];
+  private future: T[] = [];
+
+  constructor(
+    private present: T,
+    private limit = 100, // max number of steps that can be undone
+  ) {}
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  // Records a new state, which can then be undone (and discards the states that
+  // were undone)
+  record(state: T) {
+    if (JSON.stringify(state) === JSON.stringify(this.present)) {
+      return;
+    }
+
+    this.past.push(this.present);
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+    this.present = state;
+    this.future = [];
+  }
+
+  // Returns the previous state, if any
+  undo(): T | undefined {
+    const previous = this.past.pop();
+    if (previous === undefined) {
+      return undefined;
+    }
+
+    this.future.push(this.present);
+    this.present = previous;
+    return previous;
+  }
+
+  // Returns the state that was last undone, if any
+  redo(): T | undefined {
+    const next = this.future.pop();
+    if (next === undefined) {
+      return undefined;
+    }
+
+    this.past.push(this.present);
+    this.present = next;
+    return next;
+  }
+}
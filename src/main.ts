@@ -2,53 +2,304 @@ import "./style.css";
 
 import * as THREE from "three";
 import { Renderer } from "./rendering/renderer";
-
-import { hollowCylinder } from "./model/manifold";
-import { mesh2geometry } from "./model/export";
-import { TMFLoader } from "./model/load";
+import { OVERLAY_LAYER } from "./rendering/effects/overlay";
+import { HatchingMaterial } from "./rendering/effects/hatching";
+import { DimensionOverlay, type Dimension } from "./rendering/dimensions";
+import {
+  DEFAULT_VIEW,
+  STANDARD_VIEWS,
+  MAX_ELEVATION,
+  MIN_ZOOM,
+  MAX_ZOOM,
+  type StandardView,
+  type View,
+} from "./rendering/views";
+
+import type {
+  VaseParams,
+  SectionShape,
+  TextMode,
+  Arrangement,
+  Placement,
+  Cutaway,
+  LidStyle,
+  FrogPattern,
+} from "./model/manifold";
+import type { Texture } from "./model/texture";
+import {
+  PROFILE_PRESETS,
+  profileShape,
+  vaseRadii,
+  type ProfileShape,
+} from "./model/profile";
+import {
+  RESOLUTION_PRESETS,
+  resolution,
+  type Resolution,
+} from "./model/resolution";
+import {
+  UNITS,
+  toUnit,
+  fromUnit,
+  formatLength,
+  parseLength,
+  lengthStep,
+  type Unit,
+} from "./model/units";
+import {
+  mesh2geometry,
+  EXPORT_FORMATS,
+  type ExportFormat,
+} from "./model/export";
+import { ModelLoader } from "./model/load";
+import type { Analysis } from "./model/analysis";
+import type { Imported } from "./model/import";
+import {
+  estimate,
+  MATERIALS,
+  type Material,
+  type Estimate,
+  type Volumes,
+} from "./model/estimate";
+import { modelBasename } from "./model/filename";
+import { ModelWorker } from "./worker/client";
+import { History } from "./history";
+import {
+  DEFAULT_PARAMS,
+  MIN_HEIGHT,
+  MAX_HEIGHT,
+  MIN_OUTER_RADIUS,
+  MAX_OUTER_RADIUS,
+  MIN_WALL_THICKNESS,
+  MAX_WALL_THICKNESS,
+  MIN_PROFILE_PERCENT,
+  MAX_PROFILE_PERCENT,
+  MIN_SIDES,
+  MAX_SIDES,
+  MIN_STAR_RATIO,
+  MAX_STAR_RATIO,
+  MIN_CORNER_RADIUS,
+  MAX_CORNER_RADIUS,
+  MIN_TWIST,
+  MAX_TWIST,
+  MIN_SCALE_TOP,
+  MAX_SCALE_TOP,
+  MIN_BOTTOM_THICKNESS,
+  MAX_BOTTOM_THICKNESS,
+  MIN_NOZZLE_WIDTH,
+  MAX_NOZZLE_WIDTH,
+  MIN_CHORD_ERROR,
+  MAX_CHORD_ERROR,
+  MIN_DRAINAGE_HOLES,
+  MAX_DRAINAGE_HOLES,
+  MIN_DRAINAGE_HOLE_DIAMETER,
+  MAX_DRAINAGE_HOLE_DIAMETER,
+  MIN_DRAINAGE_RING_RADIUS,
+  MAX_DRAINAGE_RING_RADIUS,
+  MIN_SAUCER_CLEARANCE,
+  MAX_SAUCER_CLEARANCE,
+  MIN_SAUCER_LIP_HEIGHT,
+  MAX_SAUCER_LIP_HEIGHT,
+  MAX_TEXT_LENGTH,
+  MIN_TEXT_SIZE,
+  MAX_TEXT_SIZE,
+  MIN_TEXT_DEPTH,
+  MAX_TEXT_DEPTH,
+  MIN_TEXT_POSITION,
+  MAX_TEXT_POSITION,
+  MIN_TEXT_ANGLE,
+  MAX_TEXT_ANGLE,
+  MIN_TEXTURE_AMPLITUDE,
+  MAX_TEXTURE_AMPLITUDE,
+  MIN_TEXTURE_COUNT,
+  MAX_TEXTURE_COUNT,
+  MIN_TEXTURE_ROWS,
+  MAX_TEXTURE_ROWS,
+  MIN_TEXTURE_PHASE,
+  MAX_TEXTURE_PHASE,
+  MIN_LINER_CLEARANCE,
+  MAX_LINER_CLEARANCE,
+  MIN_LID_INTERFERENCE,
+  MAX_LID_INTERFERENCE,
+  MIN_LID_CLEARANCE,
+  MAX_LID_CLEARANCE,
+  MIN_THREAD_PITCH,
+  MAX_THREAD_PITCH,
+  MIN_THREAD_TURNS,
+  MAX_THREAD_TURNS,
+  MIN_THREAD_TOLERANCE,
+  MAX_THREAD_TOLERANCE,
+  MIN_FROG_HOLES,
+  MAX_FROG_HOLES,
+  MIN_FROG_HOLE_DIAMETER,
+  MAX_FROG_HOLE_DIAMETER,
+  MIN_FROG_THICKNESS,
+  MAX_FROG_THICKNESS,
+  START_OVERHANG_ANGLE,
+  MIN_OVERHANG_ANGLE,
+  MAX_OVERHANG_ANGLE,
+  START_MIN_WALL_LINES,
+  MIN_MIN_WALL_LINES,
+  MAX_MIN_WALL_LINES,
+  START_MATERIAL,
+  START_COST_PER_KG,
+  MIN_COST_PER_KG,
+  MAX_COST_PER_KG,
+  START_CUT_POSITION,
+  MIN_CUT_POSITION,
+  MAX_CUT_POSITION,
+  START_IMAGE_WIDTH,
+  MIN_IMAGE_WIDTH,
+  MAX_IMAGE_WIDTH,
+} from "./model/params";
+import { paramsFromUrl, urlWithParams } from "./permalink";
+import {
+  STARTER_PRESETS,
+  loadLibrary,
+  saveLibrary,
+  serializeLibrary,
+  parseLibrary,
+  uniqueName,
+  type Preset,
+} from "./presets";
 import { Animate, immediate } from "./animate";
 
 import { Dyn } from "twrl";
 
-import { rangeControl, checkbox } from "./controls";
+import { rangeControl, checkbox, select, textInput } from "./controls";
 
 /// CONSTANTS
 
 // Align axes with 3D printer
 THREE.Object3D.DEFAULT_UP = new THREE.Vector3(0, 0, 1);
 
+// NOTE: the model dimensions' defaults & valid ranges are in ./model/params
 
-// constants for cylinder dimensions
-
-const START_HEIGHT = 50;
-const MIN_HEIGHT = 10;
-const MAX_HEIGHT = 200;
-
-const START_OUTER_RADIUS = 25;
-const MIN_OUTER_RADIUS = 5;
-const MAX_OUTER_RADIUS = 100;
-
-const START_WALL_THICKNESS = 3;
-const MIN_WALL_THICKNESS = 1;
-const MAX_WALL_THICKNESS = 20;
-
-const START_CLOSED_BOTTOM = true;
+const START_EXPORT_FORMAT: ExportFormat = "3mf";
 
 /// STATE
 
+// The parameters the page was loaded with (defaults, possibly overridden by
+// the permalink)
+const initialParams: VaseParams = {
+  ...DEFAULT_PARAMS,
+  ...paramsFromUrl(new URL(window.location.href)),
+};
+
 // Dimensions of the cylinder model.
 // These are the dimensions of the 3MF file, as well as
 // the _target_ dimensions for the animations, though may
 // be (ephemerally) different from the animation values.
 
 const modelDimensions = {
-  height: new Dyn(START_HEIGHT),
-  outerRadius: new Dyn(START_OUTER_RADIUS),
-  wallThickness: new Dyn(START_WALL_THICKNESS),
-  closedBottom: new Dyn(START_CLOSED_BOTTOM),
+  height: new Dyn(initialParams.height),
+  outerRadius: new Dyn(initialParams.outerRadius),
+  wallThickness: new Dyn(initialParams.wallThickness),
+  closedBottom: new Dyn(initialParams.closedBottom),
+  profile: new Dyn<readonly number[]>(initialParams.profile),
+  section: new Dyn<SectionShape>(initialParams.section),
+  sides: new Dyn(initialParams.sides),
+  starRatio: new Dyn(initialParams.starRatio),
+  cornerRadius: new Dyn(initialParams.cornerRadius),
+  twist: new Dyn(initialParams.twist),
+  scaleTop: new Dyn(initialParams.scaleTop),
+  spiralMode: new Dyn(initialParams.spiralMode),
+  bottomThickness: new Dyn(initialParams.bottomThickness),
+  nozzleWidth: new Dyn(initialParams.nozzleWidth),
+  chordError: new Dyn(initialParams.chordError),
+  drainageHoles: new Dyn(initialParams.drainageHoles),
+  drainageHoleDiameter: new Dyn(initialParams.drainageHoleDiameter),
+  drainageRingRadius: new Dyn(initialParams.drainageRingRadius),
+  saucer: new Dyn(initialParams.saucer),
+  saucerClearance: new Dyn(initialParams.saucerClearance),
+  saucerLipHeight: new Dyn(initialParams.saucerLipHeight),
+  text: new Dyn(initialParams.text),
+  textMode: new Dyn<TextMode>(initialParams.textMode),
+  textSize: new Dyn(initialParams.textSize),
+  textDepth: new Dyn(initialParams.textDepth),
+  textPosition: new Dyn(initialParams.textPosition),
+  textAngle: new Dyn(initialParams.textAngle),
+  texture: new Dyn<Texture>(initialParams.texture),
+  textureAmplitude: new Dyn(initialParams.textureAmplitude),
+  textureCount: new Dyn(initialParams.textureCount),
+  textureRows: new Dyn(initialParams.textureRows),
+  texturePhase: new Dyn(initialParams.texturePhase),
+  liner: new Dyn(initialParams.liner),
+  linerClearance: new Dyn(initialParams.linerClearance),
+  linerNotch: new Dyn(initialParams.linerNotch),
+  lid: new Dyn(initialParams.lid),
+  lidInterference: new Dyn(initialParams.lidInterference),
+  lidClearance: new Dyn(initialParams.lidClearance),
+  threadPitch: new Dyn(initialParams.threadPitch),
+  threadTurns: new Dyn(initialParams.threadTurns),
+  threadTolerance: new Dyn(initialParams.threadTolerance),
+  frog: new Dyn(initialParams.frog),
+  frogHoles: new Dyn(initialParams.frogHoles),
+  frogHoleDiameter: new Dyn(initialParams.frogHoleDiameter),
+  frogThickness: new Dyn(initialParams.frogThickness),
 };
 
+// The (target) model parameters
+const modelParams = (): VaseParams => ({
+  height: modelDimensions.height.latest,
+  outerRadius: modelDimensions.outerRadius.latest,
+  wallThickness: modelDimensions.wallThickness.latest,
+  closedBottom: modelDimensions.closedBottom.latest,
+  profile: modelDimensions.profile.latest,
+  section: modelDimensions.section.latest,
+  sides: modelDimensions.sides.latest,
+  starRatio: modelDimensions.starRatio.latest,
+  cornerRadius: modelDimensions.cornerRadius.latest,
+  twist: modelDimensions.twist.latest,
+  scaleTop: modelDimensions.scaleTop.latest,
+  spiralMode: modelDimensions.spiralMode.latest,
+  bottomThickness: modelDimensions.bottomThickness.latest,
+  nozzleWidth: modelDimensions.nozzleWidth.latest,
+  chordError: modelDimensions.chordError.latest,
+  drainageHoles: modelDimensions.drainageHoles.latest,
+  drainageHoleDiameter: modelDimensions.drainageHoleDiameter.latest,
+  drainageRingRadius: modelDimensions.drainageRingRadius.latest,
+  saucer: modelDimensions.saucer.latest,
+  saucerClearance: modelDimensions.saucerClearance.latest,
+  saucerLipHeight: modelDimensions.saucerLipHeight.latest,
+  text: modelDimensions.text.latest,
+  textMode: modelDimensions.textMode.latest,
+  textSize: modelDimensions.textSize.latest,
+  textDepth: modelDimensions.textDepth.latest,
+  textPosition: modelDimensions.textPosition.latest,
+  textAngle: modelDimensions.textAngle.latest,
+  texture: modelDimensions.texture.latest,
+  textureAmplitude: modelDimensions.textureAmplitude.latest,
+  textureCount: modelDimensions.textureCount.latest,
+  textureRows: modelDimensions.textureRows.latest,
+  texturePhase: modelDimensions.texturePhase.latest,
+  liner: modelDimensions.liner.latest,
+  linerClearance: modelDimensions.linerClearance.latest,
+  linerNotch: modelDimensions.linerNotch.latest,
+  lid: modelDimensions.lid.latest,
+  lidInterference: modelDimensions.lidInterference.latest,
+  lidClearance: modelDimensions.lidClearance.latest,
+  threadPitch: modelDimensions.threadPitch.latest,
+  threadTurns: modelDimensions.threadTurns.latest,
+  threadTolerance: modelDimensions.threadTolerance.latest,
+  frog: modelDimensions.frog.latest,
+  frogHoles: modelDimensions.frogHoles.latest,
+  frogHoleDiameter: modelDimensions.frogHoleDiameter.latest,
+  frogThickness: modelDimensions.frogThickness.latest,
+});
 
+// The (target) model parameters, as a whole, for everything that depends on
+// all of them (e.g. the exported model). When all parameters are set at once
+// (see sendParams), this is updated only once.
+const targetParams = new Dyn<VaseParams>(modelParams());
+let sendingParams = false;
+Object.values(modelDimensions).forEach((dim: Dyn<unknown>) =>
+  dim.addListener(() => {
+    if (!sendingParams) {
+      targetParams.send(modelParams());
+    }
+  }),
+);
 
 // Current state of part positioning
 type PartPositionStatic = Extract<PartPosition, { tag: "static" }>;
@@ -74,36 +325,309 @@ type PartPosition =
     } /* mouse is moving */;
 const partPositioning = new Dyn<PartPosition>({ tag: "static", position: 0 });
 
+// Whether the parts are shown pulled apart (rather than put together)
+const exploded = new Dyn(false);
+
+// How the parts are placed in the preview
+const arrangement = (): Arrangement =>
+  exploded.latest ? "exploded" : "assembled";
+
+// Whether the lid (if any) is shown in the preview
+const showLid = new Dyn(true);
+
+// The parts left out of the preview, by name
+const hiddenParts = (): string[] => (showLid.latest ? [] : ["lid"]);
+
+// Whether the dimensions are annotated on the model
+const showDimensions = new Dyn(false);
+
+// Whether the model is cut open to show its walls, and where (in percent, see
+// START_CUT_POSITION)
+const cutaway = new Dyn(false);
+const cutPosition = new Dyn(START_CUT_POSITION);
+
+// Whether the camera moves freely around the model (orbit, zoom & pan), rather
+// than the model turning on its axis
+const orbit = new Dyn(false);
+
+// A foreign 3MF file (without parameters), shown read-only instead of the
+// model, by file name
+type ImportedMesh = Extract<Imported, { kind: "mesh" }> & { name: string };
+const importedMesh = new Dyn<ImportedMesh | undefined>(undefined);
+
+// Settings of the printability analysis
+const analysisSettings = {
+  overhangAngle: new Dyn(START_OVERHANG_ANGLE),
+  minWallLines: new Dyn(START_MIN_WALL_LINES),
+};
+
 /// MODEL
 
-const tmfLoader = new TMFLoader();
-
-// Reloads the model seen on page
-async function reloadModel(
-  height: number,
-  outerRadius: number,
-  wallThickness: number,
-  closedBottom: boolean,
-) {
-  const model = await hollowCylinder(height, outerRadius, wallThickness, closedBottom);
-  const geometry = mesh2geometry(model);
+// Generates the models, off the main thread
+const modelWorker = new ModelWorker();
+
+const modelLoader = new ModelLoader(modelWorker, renderThumbnail);
+
+// Width of the thumbnails embedded in 3MF files, in pixels
+const MODEL_THUMBNAIL_WIDTH = 256;
+
+// Renders the thumbnail of exported files (as PNG): the model put together as
+// printed, whatever the preview shows (undefined if superseded)
+async function renderThumbnail(
+  params: VaseParams,
+): Promise<Uint8Array | undefined> {
+  const positions = await modelWorker.request("thumbnail", { params });
+  if (positions === undefined) {
+    return undefined;
+  }
+
+  const geometry = mesh2geometry(positions);
+  geometry.computeVertexNormals();
+  try {
+    const png = await renderer.renderGeometry(geometry, MODEL_THUMBNAIL_WIDTH);
+    return new Uint8Array(await png.arrayBuffer());
+  } finally {
+    geometry.dispose();
+  }
+}
+
+// The format of the downloaded file
+const exportFormat = new Dyn<ExportFormat>(START_EXPORT_FORMAT);
+
+// The width of the exported images (of the preview), in pixels
+const imageWidth = new Dyn(START_IMAGE_WIDTH);
+
+// The unit in which lengths are shown & entered (the model itself is always in
+// mm), remembered across visits
+const UNIT_STORAGE_KEY = "skapa-unit";
+
+function storedUnit(): Unit {
+  try {
+    const stored = localStorage.getItem(UNIT_STORAGE_KEY);
+    return stored !== null && stored in UNITS ? (stored as Unit) : "mm";
+  } catch {
+    return "mm"; // storage unavailable
+  }
+}
+
+const unit = new Dyn<Unit>(storedUnit());
+unit.addListener((value) => {
+  try {
+    localStorage.setItem(UNIT_STORAGE_KEY, value);
+  } catch (e) {
+    console.warn("Could not save the unit", e);
+  }
+});
+
+// Reloads the model seen on page (as it will be printed)
+async function reloadModel(params: VaseParams) {
+  if (importedMesh.latest !== undefined) {
+    return; // the imported mesh is shown instead
+  }
+
+  const shown = arrangement();
+  const hidden = hiddenParts();
+  const cut = cutawayPlane();
+  const preview = await modelWorker
+    .request("preview", {
+      params,
+      arrangement: shown,
+      hidden,
+      cutaway: cut,
+    })
+    .catch((e) => {
+      // Keep showing the previous model
+      console.warn("Could not generate the model", e);
+      return undefined;
+    });
+  if (preview === undefined || importedMesh.latest !== undefined) {
+    return; // superseded by a newer model (or by an imported mesh)
+  }
+
+  const geometry = mesh2geometry(preview.positions);
   geometry.computeVertexNormals(); // Make sure the geometry has normals
+  mesh.geometry.dispose();
   mesh.geometry = geometry;
   mesh.clear(); // Remove all children
+
+  hatching.geometry.dispose();
+  hatching.geometry = new THREE.BufferGeometry();
+  hatching.geometry.setAttribute(
+    "position",
+    new THREE.BufferAttribute(preview.cutFaces, 3),
+  );
+  if (cut !== undefined) {
+    mesh.add(hatching);
+  }
+
+  shownParams = params;
+  shownArrangement = shown;
+  shownHiddenParts = hidden;
+  shownCut = cut !== undefined;
+  shownVase = preview.placements.vase;
+  showHighlight();
+  centerCameraNeeded = true;
 }
 
 // when target dimensions are changed, update the model to download
+Dyn.sequence([targetParams, unit] as const).addListener(
+  ([params, lengthUnit]) => {
+    modelLoader.load(params, lengthUnit, modelBasename(params, lengthUnit));
+  },
+);
+
+/// ANALYSIS
+
+// The analysis of the (target) model, undefined while the analysis is running
+// ("failed" if the model could not be analyzed)
+const analysis = new Dyn<Analysis | "failed" | undefined>(undefined);
+let lastAnalysisId = 0;
+
+// when target dimensions or settings are changed, analyze the model as printed
 Dyn.sequence([
-  modelDimensions.height,
-  modelDimensions.outerRadius,
-  modelDimensions.wallThickness,
-  modelDimensions.closedBottom,
-] as const).addListener(([h, r, w, closed]) => {
-  const bottomType = closed ? "closed" : "open";
-  const filename = `cylinder-${(r * 2).toFixed(0)}x${h.toFixed(0)}-wall${w.toFixed(0)}-${bottomType}.3mf`;
-  tmfLoader.load(hollowCylinder(h, r, w, closed), filename);
+  targetParams,
+  analysisSettings.overhangAngle,
+  analysisSettings.minWallLines,
+  unit,
+  exploded,
+  showLid,
+] as const).addListener(async ([params]) => {
+  analysis.send(undefined);
+  const id = ++lastAnalysisId;
+
+  const settings = {
+    overhangAngle: analysisSettings.overhangAngle.latest,
+    minWallLines: analysisSettings.minWallLines.latest,
+    unit: unit.latest,
+  };
+  const result = await modelWorker
+    .request("analysis", {
+      params,
+      settings,
+      arrangement: arrangement(),
+      hidden: hiddenParts(),
+    })
+    .catch((e) => {
+      console.warn("Could not analyze the model", e);
+      return "failed" as const;
+    });
+
+  // Drop the result if another analysis was started in the meantime
+  if (result !== undefined && id === lastAnalysisId) {
+    analysis.send(result);
+  }
+});
+
+/// ESTIMATES
+
+// The volumes of the (target) model, undefined while being computed ("failed"
+// if they could not be computed)
+const volumes = new Dyn<Volumes | "failed" | undefined>(undefined);
+let lastVolumesId = 0;
+
+const material = new Dyn<Material>(START_MATERIAL);
+const costPerKg = new Dyn(START_COST_PER_KG);
+
+// when target dimensions are changed, compute the volumes of the model as printed
+targetParams.addListener(async (params) => {
+  volumes.send(undefined);
+  const id = ++lastVolumesId;
+
+  const result = await modelWorker.request("volumes", { params }).catch((e) => {
+    console.warn("Could not compute the volumes", e);
+    return "failed" as const;
+  });
+
+  // Drop the result if other volumes were requested in the meantime
+  if (result !== undefined && id === lastVolumesId) {
+    volumes.send(result);
+  }
+});
+
+/// PERMALINK
+
+// when target dimensions are changed, update the URL so that it can be shared
+targetParams.addListener((params) => {
+  const url = urlWithParams(new URL(window.location.href), params);
+  window.history.replaceState(null, "", url);
+});
+
+/// PRESETS
+
+// The saved presets, kept in the local storage
+const presets = new Dyn<Preset[]>(loadLibrary());
+presets.addListener((presets) => {
+  try {
+    saveLibrary(presets);
+  } catch (e) {
+    console.warn("Could not save the presets", e);
+  }
+});
+
+// Sets all the (target) model parameters, e.g. when a preset is loaded
+function sendParams(params: VaseParams) {
+  sendingParams = true;
+  try {
+    (Object.keys(modelDimensions) as (keyof VaseParams)[]).forEach((key) => {
+      (modelDimensions[key] as Dyn<unknown>).send(params[key]);
+    });
+  } finally {
+    sendingParams = false;
+  }
+  targetParams.send(modelParams());
+}
+
+// Width of the presets' thumbnails, in pixels
+const THUMBNAIL_WIDTH = 160;
+
+/// HISTORY
+
+// The history of the (target) model parameters, for undo & redo
+const history = new History<VaseParams>(modelParams());
+
+// Delay after which an edit is recorded, so that e.g. typing a number or
+// holding an arrow key on a slider counts as a single step
+const HISTORY_DELAY = 500;
+
+// Whether a control is being dragged (e.g. a slider). The edits are then
+// recorded when the drag ends, as a single step.
+let dragging = false;
+let historyTimeout: ReturnType<typeof setTimeout> | undefined;
+
+// Records the current parameters in the history, right away
+function recordHistory() {
+  clearTimeout(historyTimeout);
+  historyTimeout = undefined;
+  history.record(modelParams());
+  updateHistoryButtons();
+}
+
+// when target dimensions are changed, record them once the edit is over
+targetParams.addListener(() => {
+  clearTimeout(historyTimeout);
+  historyTimeout = dragging
+    ? undefined
+    : setTimeout(recordHistory, HISTORY_DELAY);
 });
 
+function undo() {
+  recordHistory(); // pending edits are undone first
+  const params = history.undo();
+  if (params !== undefined) {
+    sendParams(params);
+  }
+  updateHistoryButtons();
+}
+
+function redo() {
+  recordHistory(); // pending edits discard the steps that could be redone
+  const params = history.redo();
+  if (params !== undefined) {
+    sendParams(params);
+  }
+  updateHistoryButtons();
+}
+
 /// RENDER
 
 // Set to 'true' whenever the camera needs to be centered again
@@ -129,17 +653,241 @@ async function centerCamera() {
   renderer.centerCameraAround(mesh, mat);
 }
 
+// The problematic areas found by the analysis, shown on top of the model (as a
+// child of the mesh, to follow its rotation)
+const highlight = new THREE.Mesh(
+  new THREE.BufferGeometry(),
+  new THREE.MeshBasicMaterial({
+    color: 0xe8542a,
+    transparent: true,
+    opacity: 0.6,
+    side: THREE.DoubleSide,
+    depthWrite: false,
+    // Draw in front of the model's faces the highlight lies on
+    polygonOffset: true,
+    polygonOffsetFactor: -1,
+    polygonOffsetUnits: -4,
+  }),
+);
+highlight.layers.set(OVERLAY_LAYER);
+
+// The faces of the cutaway's cut, hatched on top of the model (as a child of
+// the mesh, like the highlight)
+const hatching = new THREE.Mesh(
+  new THREE.BufferGeometry(),
+  new HatchingMaterial(),
+);
+hatching.layers.set(OVERLAY_LAYER);
+
+// The cutaway for the current settings (if enabled). The plane faces away from
+// the camera when the part is at rest (the cut then follows the part while it
+// is being turned).
+function cutawayPlane(): Cutaway | undefined {
+  if (!cutaway.latest) {
+    return undefined;
+  }
+
+  const positioning = partPositioning.latest;
+  const { position } =
+    positioning.tag === "static" ? positioning : positioning.lastStatic;
+
+  // The direction the camera looks in, horizontally, in the part's coordinates
+  const direction = renderer.camera
+    .getWorldDirection(new THREE.Vector3())
+    .setZ(0)
+    .normalize()
+    .applyAxisAngle(
+      new THREE.Vector3(0, 0, 1),
+      -(position * Math.PI + MESH_ROTATION_DELTA),
+    );
+
+  return {
+    direction: [direction.x, direction.y, direction.z],
+    position: cutPosition.latest / 100,
+  };
+}
+
+// The parameters of the model currently shown (possibly mid-animation), how
+// its parts are placed, which parts are hidden and whether it is cut
+let shownParams: VaseParams | undefined;
+let shownArrangement: Arrangement | undefined;
+let shownHiddenParts: string[] | undefined;
+let shownCut = false;
+let shownVase: Placement | undefined;
+
+// Shows the highlight if the analysis matches the model currently shown (the
+// highlight is left out of cutaways, where it would float over the cut parts)
+function showHighlight() {
+  const result = analysis.latest;
+  const upToDate =
+    result !== undefined &&
+    result !== "failed" &&
+    shownParams !== undefined &&
+    JSON.stringify(shownParams) === JSON.stringify(modelParams()) &&
+    shownArrangement === arrangement() &&
+    JSON.stringify(shownHiddenParts) === JSON.stringify(hiddenParts()) &&
+    !shownCut;
+
+  if (upToDate && result.highlight.length > 0) {
+    highlight.geometry.dispose();
+    highlight.geometry = new THREE.BufferGeometry();
+    highlight.geometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(result.highlight, 3),
+    );
+    mesh.add(highlight);
+  } else {
+    mesh.remove(highlight);
+  }
+}
+
+analysis.addListener(() => showHighlight());
+
 const MESH_ROTATION_DELTA = 0.1;
 mesh.rotation.z = MESH_ROTATION_DELTA;
 
 const canvas = document.querySelector("canvas") as HTMLCanvasElement;
 const renderer = new Renderer(canvas, mesh);
 
+// The dimension annotations, drawn over the canvas
+const dimensionOverlay = new DimensionOverlay(canvas);
+
+// Distance between the vase & the dimension lines, as a ratio of the vase's size
+const DIMENSION_GAP = 0.15;
+
+// Number of heights at which the vase is measured to find its widest point
+const N_DIMENSION_SAMPLES = 64;
+
+// The dimensions annotated on the vase: its height (on the left), its outer
+// diameter (above, measured where the vase is widest) and its wall thickness
+// (pointing at the rim, on the right). The annotations are placed relative to
+// the camera, and don't turn with the model.
+function vaseDimensions(params: VaseParams, vase: Placement): Dimension[] {
+  const { height } = params;
+  const { radiusAt } = vaseRadii(params);
+  const relief = params.texture === "none" ? 0 : params.textureAmplitude;
+
+  // The horizontal direction going right on the screen, and the point at
+  // (signed) distance 'd' from the vase's axis in that direction and at
+  // height z from the vase's bottom
+  renderer.camera.updateMatrixWorld();
+  const right = new THREE.Vector3()
+    .setFromMatrixColumn(renderer.camera.matrixWorld, 0)
+    .setZ(0)
+    .normalize();
+  const origin = new THREE.Vector3(...vase.translation);
+  const at = (d: number, z: number) =>
+    origin
+      .clone()
+      .addScaledVector(right, d)
+      .setZ(origin.z + z);
+
+  const heights = Array.from(
+    { length: N_DIMENSION_SAMPLES + 1 },
+    (_, i) => (height * i) / N_DIMENSION_SAMPLES,
+  );
+  const widest = heights.reduce((a, b) => (radiusAt(b) > radiusAt(a) ? b : a));
+  const radius = radiusAt(widest) + relief;
+  const gap = DIMENSION_GAP * Math.max(height, 2 * radius);
+
+  // The camera looks down on the vase, so the back of the vase appears higher
+  // than its top: the diameter is drawn above that
+  const forward = renderer.camera.getWorldDirection(new THREE.Vector3());
+  const tilt = -forward.z / Math.hypot(forward.x, forward.y); // tan of the angle
+  const above = Math.max(
+    ...heights.map((z) => z + (radiusAt(z) + relief) * tilt),
+  );
+
+  const rim = radiusAt(height);
+  const wall = params.spiralMode ? params.nozzleWidth : params.wallThickness;
+
+  return [
+    {
+      kind: "linear",
+      from: at(-radiusAt(0) - relief, 0),
+      to: at(-rim - relief, height),
+      line: [at(-radius - gap, 0), at(-radius - gap, height)],
+      label: formatLength(height, unit.latest),
+    },
+    {
+      kind: "linear",
+      from: at(-radius, widest),
+      to: at(radius, widest),
+      line: [at(-radius, above + gap), at(radius, above + gap)],
+      label: `Ø ${formatLength(2 * radius, unit.latest)}`,
+    },
+    {
+      kind: "callout",
+      at: at(rim - wall / 2, height),
+      label: `Wall ${formatLength(wall, unit.latest)}`,
+    },
+  ];
+}
+
+// The steepest view (from above or below) with dimensions, which would be
+// squashed in steeper views
+const MAX_DIMENSIONS_ELEVATION = Math.PI / 3;
+
+// Draws the dimensions of the vase currently shown (if enabled)
+function drawDimensions() {
+  dimensionOverlay.draw(
+    renderer.camera,
+    showDimensions.latest &&
+      Math.abs(viewAnimations.elevation.current) <= MAX_DIMENSIONS_ELEVATION &&
+      shownParams !== undefined &&
+      shownVase !== undefined
+      ? vaseDimensions(shownParams, shownVase)
+      : [],
+  );
+}
+
 let reloadModelNeeded = true;
 
+// Whether the dimensions are being animated, in which case the model is shown
+// at (at most) draft resolution, and reloaded at full resolution afterwards
+let animating = false;
+
+const draftParams = (params: VaseParams): VaseParams => ({
+  ...params,
+  chordError: Math.max(params.chordError, RESOLUTION_PRESETS.draft),
+});
+
 // The animated rotation, between -1 and 1
 const rotation = new Animate(0);
 
+// The animated view of the camera (see ./rendering/views.ts)
+const viewAnimations = {
+  azimuth: new Animate(DEFAULT_VIEW.azimuth),
+  elevation: new Animate(DEFAULT_VIEW.elevation),
+  zoom: new Animate(DEFAULT_VIEW.zoom),
+  panX: new Animate(DEFAULT_VIEW.pan[0]),
+  panY: new Animate(DEFAULT_VIEW.pan[1]),
+};
+
+// The view the camera is moved to, and whether the camera moved since it was
+// last at rest
+let targetView: View = DEFAULT_VIEW;
+let viewMoved = false;
+
+// Moves the camera to the view, animated unless following the pointer
+function moveView(view: View, { animate = true }: { animate?: boolean } = {}) {
+  targetView = view;
+  const easing = animate ? undefined : immediate;
+  viewAnimations.azimuth.startAnimationTo(view.azimuth, easing);
+  viewAnimations.elevation.startAnimationTo(view.elevation, easing);
+  viewAnimations.zoom.startAnimationTo(view.zoom, easing);
+  viewAnimations.panX.startAnimationTo(view.pan[0], easing);
+  viewAnimations.panY.startAnimationTo(view.pan[1], easing);
+}
+
+// Animates the camera to the view (e.g. a standard view), turning the shortest
+// way around the model
+function showView(view: View) {
+  const turn = 2 * Math.PI;
+  const turns = Math.round((targetView.azimuth - view.azimuth) / turn);
+  moveView({ ...view, azimuth: view.azimuth + turns * turn });
+}
+
 /* Bound the number betweek lo & hi (modulo) */
 const bound = (v: number, [lo, hi]: [number, number]): number =>
   ((v - lo) % (hi - lo)) + lo;
@@ -160,27 +908,272 @@ partPositioning.addListener((val) => {
 
 /// ANIMATIONS
 
-// The animated dimensions (booleans don't need animation)
+// The animated dimensions (booleans, shapes & counts don't need animation)
 const animations = {
-  height: new Animate(START_HEIGHT),
-  outerRadius: new Animate(START_OUTER_RADIUS),
-  wallThickness: new Animate(START_WALL_THICKNESS),
+  height: new Animate(initialParams.height),
+  outerRadius: new Animate(initialParams.outerRadius),
+  wallThickness: new Animate(initialParams.wallThickness),
+  starRatio: new Animate(initialParams.starRatio),
+  cornerRadius: new Animate(initialParams.cornerRadius),
+  twist: new Animate(initialParams.twist),
+  scaleTop: new Animate(initialParams.scaleTop),
+  bottomThickness: new Animate(initialParams.bottomThickness),
+  nozzleWidth: new Animate(initialParams.nozzleWidth),
+  drainageHoleDiameter: new Animate(initialParams.drainageHoleDiameter),
+  drainageRingRadius: new Animate(initialParams.drainageRingRadius),
+  saucerClearance: new Animate(initialParams.saucerClearance),
+  saucerLipHeight: new Animate(initialParams.saucerLipHeight),
+  textSize: new Animate(initialParams.textSize),
+  textDepth: new Animate(initialParams.textDepth),
+  textPosition: new Animate(initialParams.textPosition),
+  textAngle: new Animate(initialParams.textAngle),
+  textureAmplitude: new Animate(initialParams.textureAmplitude),
+  textureRows: new Animate(initialParams.textureRows),
+  texturePhase: new Animate(initialParams.texturePhase),
+  linerClearance: new Animate(initialParams.linerClearance),
+  lidInterference: new Animate(initialParams.lidInterference),
+  lidClearance: new Animate(initialParams.lidClearance),
+  threadPitch: new Animate(initialParams.threadPitch),
+  threadTolerance: new Animate(initialParams.threadTolerance),
+  frogHoleDiameter: new Animate(initialParams.frogHoleDiameter),
+  frogThickness: new Animate(initialParams.frogThickness),
 };
 
+const ANIMATED_DIMENSIONS = Object.keys(
+  animations,
+) as (keyof typeof animations)[];
+
 // Only animate numeric dimensions
-(["height", "outerRadius", "wallThickness"] as const).forEach((dim) =>
+ANIMATED_DIMENSIONS.forEach((dim) =>
   modelDimensions[dim].addListener((val) => {
     animations[dim].startAnimationTo(val);
   }),
 );
 
+// The animated profile control points
+const profileAnimations = initialParams.profile.map(
+  (ratio) => new Animate(ratio),
+);
+
+modelDimensions.profile.addListener((profile) => {
+  profile.forEach((ratio, i) => profileAnimations[i].startAnimationTo(ratio));
+});
+
+// The model parameters, as currently animated
+const animatedParams = (): VaseParams => ({
+  ...modelParams(),
+  height: animations.height.current,
+  outerRadius: animations.outerRadius.current,
+  wallThickness: animations.wallThickness.current,
+  profile: profileAnimations.map((animation) => animation.current),
+  starRatio: animations.starRatio.current,
+  cornerRadius: animations.cornerRadius.current,
+  twist: animations.twist.current,
+  scaleTop: animations.scaleTop.current,
+  bottomThickness: animations.bottomThickness.current,
+  nozzleWidth: animations.nozzleWidth.current,
+  drainageHoleDiameter: animations.drainageHoleDiameter.current,
+  drainageRingRadius: animations.drainageRingRadius.current,
+  saucerClearance: animations.saucerClearance.current,
+  saucerLipHeight: animations.saucerLipHeight.current,
+  textSize: animations.textSize.current,
+  textDepth: animations.textDepth.current,
+  textPosition: animations.textPosition.current,
+  textAngle: animations.textAngle.current,
+  textureAmplitude: animations.textureAmplitude.current,
+  textureRows: animations.textureRows.current,
+  texturePhase: animations.texturePhase.current,
+  linerClearance: animations.linerClearance.current,
+  lidInterference: animations.lidInterference.current,
+  lidClearance: animations.lidClearance.current,
+  threadPitch: animations.threadPitch.current,
+  threadTolerance: animations.threadTolerance.current,
+  frogHoleDiameter: animations.frogHoleDiameter.current,
+  frogThickness: animations.frogThickness.current,
+});
+
+// Non-animated dimensions reload the model directly
+Dyn.sequence([
+  modelDimensions.closedBottom,
+  modelDimensions.section,
+  modelDimensions.sides,
+  modelDimensions.spiralMode,
+  modelDimensions.drainageHoles,
+  modelDimensions.saucer,
+  modelDimensions.text,
+  modelDimensions.textMode,
+  modelDimensions.texture,
+  modelDimensions.textureCount,
+  modelDimensions.liner,
+  modelDimensions.linerNotch,
+  modelDimensions.lid,
+  modelDimensions.threadTurns,
+  modelDimensions.frog,
+  modelDimensions.frogHoles,
+  modelDimensions.chordError,
+  exploded,
+  showLid,
+  cutaway,
+  cutPosition,
+] as const).addListener(() => {
+  reloadModelNeeded = true;
+});
+
+// The cut faces the camera once the part comes to rest
+partPositioning.addListener((val) => {
+  if (val.tag === "static" && cutaway.latest) {
+    reloadModelNeeded = true;
+  }
+});
+
 /// DOM
 
 // Download button
 const link = document.querySelector("a")!;
 
+const exportFormatControl = select("exportFormat", {
+  label: "Format",
+  options: (Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => ({
+    value: format,
+    label: EXPORT_FORMATS[format].label,
+  })),
+});
+link.before(exportFormatControl.wrapper);
+
+exportFormat.addListener((format) => {
+  exportFormatControl.input.value = format;
+  link.textContent = `Download ${EXPORT_FORMATS[format].label}`;
+});
+exportFormatControl.input.addEventListener("change", () => {
+  exportFormat.send(exportFormatControl.input.value as ExportFormat);
+});
+
+// Image export (of the preview, as shown), below the download button
+const imageWidthControl = rangeControl("imageWidth", {
+  name: "Image Width",
+  min: String(MIN_IMAGE_WIDTH),
+  max: String(MAX_IMAGE_WIDTH),
+  sliderMin: String(MIN_IMAGE_WIDTH),
+  sliderMax: String(MAX_IMAGE_WIDTH),
+  step: "64",
+  unit: "px",
+});
+
+const pngButton = document.createElement("button");
+pngButton.textContent = "Save PNG";
+pngButton.title = "Rendering with a transparent background";
+
+const svgButton = document.createElement("button");
+svgButton.textContent = "Save SVG";
+svgButton.title = "Line drawing";
+
+const imageActions = document.createElement("div");
+imageActions.className = "image-export";
+imageActions.append(pngButton, svgButton);
+link.after(imageWidthControl.wrapper, imageActions);
+
+// 3MF import (of an exported design), below the image export. Files can also
+// be dropped on the page.
+const importInput = document.createElement("input");
+importInput.type = "file";
+importInput.accept = ".3mf,model/3mf";
+importInput.hidden = true;
+
+const importButton = document.createElement("button");
+importButton.textContent = "Open 3MF";
+importButton.title = "Restore a design from an exported 3MF file";
+
+const importActions = document.createElement("div");
+importActions.className = "model-import";
+importActions.append(importButton, importInput);
+imageActions.after(importActions);
+
+// Foreign 3MF files are shown read-only, with their size, until closed
+const importedLabel = document.createElement("span");
+
+const closeImportedButton = document.createElement("button");
+closeImportedButton.textContent = "Close";
+
+const importedBanner = document.createElement("div");
+importedBanner.className = "imported";
+importedBanner.append(importedLabel, closeImportedButton);
+document.querySelector("#part")!.append(importedBanner);
+
 const controls = document.querySelector(".controls") as HTMLDivElement;
 
+// Exploded view, below the model
+const explodedControl = checkbox("exploded", { label: "Exploded View" });
+explodedControl.classList.add("view-option");
+document.querySelector("#part")!.append(explodedControl);
+
+const dimensionsControl = checkbox("dimensions", { label: "Dimensions" });
+dimensionsControl.classList.add("view-option");
+document.querySelector("#part")!.append(dimensionsControl);
+
+const showLidControl = checkbox("showLid", {
+  label: "Show Lid",
+  checked: true,
+});
+showLidControl.classList.add("view-option");
+document.querySelector("#part")!.append(showLidControl);
+
+const cutawayControl = checkbox("cutaway", { label: "Cutaway" });
+cutawayControl.classList.add("view-option");
+document.querySelector("#part")!.append(cutawayControl);
+
+const cutPositionControl = rangeControl("cutPosition", {
+  name: "Cut Position",
+  min: String(MIN_CUT_POSITION),
+  max: String(MAX_CUT_POSITION),
+  sliderMin: String(MIN_CUT_POSITION),
+  sliderMax: String(MAX_CUT_POSITION),
+  unit: "%",
+});
+cutPositionControl.wrapper.classList.add("view-option");
+document.querySelector("#part")!.append(cutPositionControl.wrapper);
+
+// Free camera, and the standard views (also without the free camera)
+const orbitControl = checkbox("orbit", { label: "Orbit (drag, scroll & pan)" });
+orbitControl.classList.add("view-option");
+document.querySelector("#part")!.append(orbitControl);
+
+const viewButtons = (Object.keys(STANDARD_VIEWS) as StandardView[]).map(
+  (name) => {
+    const button = document.createElement("button");
+    button.textContent = STANDARD_VIEWS[name].label;
+    button.addEventListener("click", () => showView(STANDARD_VIEWS[name].view));
+    return button;
+  },
+);
+
+const standardViews = document.createElement("div");
+standardViews.className = "standard-views view-option";
+standardViews.append(...viewButtons);
+document.querySelector("#part")!.append(standardViews);
+
+// Undo & redo
+const undoButton = document.createElement("button");
+undoButton.textContent = "Undo";
+undoButton.title = "Undo (Ctrl+Z)";
+
+const redoButton = document.createElement("button");
+redoButton.textContent = "Redo";
+redoButton.title = "Redo (Ctrl+Shift+Z)";
+
+const historyActions = document.createElement("div");
+historyActions.className = "history";
+historyActions.append(undoButton, redoButton);
+controls.append(historyActions);
+
+const unitControl = select("unit", {
+  label: "Units",
+  options: (Object.keys(UNITS) as Unit[]).map((unit) => ({
+    value: unit,
+    label: UNITS[unit].label,
+  })),
+});
+controls.append(unitControl.wrapper);
+
 const heightControl = rangeControl("height", {
   name: "Height",
   min: String(MIN_HEIGHT),
@@ -199,6 +1192,152 @@ const outerRadiusControl = rangeControl("outerRadius", {
 });
 controls.append(outerRadiusControl.wrapper);
 
+const profileShapeControl = select("profileShape", {
+  label: "Shape",
+  options: [
+    { value: "straight", label: "Straight" },
+    { value: "bulb", label: "Bulb" },
+    { value: "tapered", label: "Tapered" },
+    { value: "hourglass", label: "Hourglass" },
+    { value: "custom", label: "Custom" },
+  ] satisfies { value: ProfileShape; label: string }[],
+});
+controls.append(profileShapeControl.wrapper);
+
+// One control per profile control point, from bottom to top
+const profileControlsWrapper = document.createElement("div");
+profileControlsWrapper.className = "profile-controls";
+controls.append(profileControlsWrapper);
+
+const PROFILE_POINT_NAMES = ["Bottom", "Lower", "Middle", "Upper", "Top"];
+const profileControls = PROFILE_POINT_NAMES.map((name, i) => {
+  const control = rangeControl(`profile${i}`, {
+    name,
+    min: String(MIN_PROFILE_PERCENT),
+    max: String(MAX_PROFILE_PERCENT),
+    sliderMin: String(MIN_PROFILE_PERCENT),
+    sliderMax: String(MAX_PROFILE_PERCENT),
+    unit: "%",
+  });
+  profileControlsWrapper.append(control.wrapper);
+  return control;
+});
+
+const sectionControl = select("section", {
+  label: "Section",
+  options: [
+    { value: "circle", label: "Circle" },
+    { value: "polygon", label: "Polygon" },
+    { value: "star", label: "Star" },
+    { value: "rounded-polygon", label: "Rounded Polygon" },
+  ] satisfies { value: SectionShape; label: string }[],
+});
+controls.append(sectionControl.wrapper);
+
+const sidesControl = rangeControl("sides", {
+  name: "Sides",
+  min: String(MIN_SIDES),
+  max: String(MAX_SIDES),
+  sliderMin: String(MIN_SIDES),
+  sliderMax: String(MAX_SIDES),
+  unit: "",
+});
+controls.append(sidesControl.wrapper);
+
+const starRatioControl = rangeControl("starRatio", {
+  name: "Star Inner Radius",
+  min: String(MIN_STAR_RATIO * 100),
+  max: String(MAX_STAR_RATIO * 100),
+  sliderMin: String(MIN_STAR_RATIO * 100),
+  sliderMax: String(MAX_STAR_RATIO * 100),
+  unit: "%",
+});
+controls.append(starRatioControl.wrapper);
+
+const cornerRadiusControl = rangeControl("cornerRadius", {
+  name: "Corner Radius",
+  min: String(MIN_CORNER_RADIUS),
+  max: String(MAX_CORNER_RADIUS),
+  sliderMin: String(MIN_CORNER_RADIUS),
+  sliderMax: String(MAX_CORNER_RADIUS),
+});
+controls.append(cornerRadiusControl.wrapper);
+
+const twistControl = rangeControl("twist", {
+  name: "Twist",
+  min: String(MIN_TWIST),
+  max: String(MAX_TWIST),
+  sliderMin: String(MIN_TWIST),
+  sliderMax: String(MAX_TWIST),
+  step: "5",
+  unit: "°",
+});
+controls.append(twistControl.wrapper);
+
+const scaleTopControl = rangeControl("scaleTop", {
+  name: "Top Scale",
+  min: String(MIN_SCALE_TOP * 100),
+  max: String(MAX_SCALE_TOP * 100),
+  sliderMin: String(MIN_SCALE_TOP * 100),
+  sliderMax: String(MAX_SCALE_TOP * 100),
+  unit: "%",
+});
+controls.append(scaleTopControl.wrapper);
+
+const textureControl = select("texture", {
+  label: "Texture",
+  options: [
+    { value: "none", label: "None" },
+    { value: "ribs", label: "Ribs" },
+    { value: "flutes", label: "Flutes" },
+    { value: "waves", label: "Waves" },
+    { value: "knurl", label: "Knurl" },
+  ] satisfies { value: Texture; label: string }[],
+});
+controls.append(textureControl.wrapper);
+
+const textureAmplitudeControl = rangeControl("textureAmplitude", {
+  name: "Texture Depth",
+  min: String(MIN_TEXTURE_AMPLITUDE),
+  max: String(MAX_TEXTURE_AMPLITUDE),
+  sliderMin: String(MIN_TEXTURE_AMPLITUDE),
+  sliderMax: String(MAX_TEXTURE_AMPLITUDE),
+  step: "0.1",
+});
+controls.append(textureAmplitudeControl.wrapper);
+
+const textureCountControl = rangeControl("textureCount", {
+  name: "Repeats Around",
+  min: String(MIN_TEXTURE_COUNT),
+  max: String(MAX_TEXTURE_COUNT),
+  sliderMin: String(MIN_TEXTURE_COUNT),
+  sliderMax: String(MAX_TEXTURE_COUNT),
+  unit: "",
+});
+controls.append(textureCountControl.wrapper);
+
+const textureRowsControl = rangeControl("textureRows", {
+  name: "Repeats Along",
+  min: String(MIN_TEXTURE_ROWS),
+  max: String(MAX_TEXTURE_ROWS),
+  sliderMin: String(MIN_TEXTURE_ROWS),
+  sliderMax: String(MAX_TEXTURE_ROWS),
+  step: "0.5",
+  unit: "",
+});
+controls.append(textureRowsControl.wrapper);
+
+const texturePhaseControl = rangeControl("texturePhase", {
+  name: "Texture Rotation",
+  min: String(MIN_TEXTURE_PHASE),
+  max: String(MAX_TEXTURE_PHASE),
+  sliderMin: String(MIN_TEXTURE_PHASE),
+  sliderMax: String(MAX_TEXTURE_PHASE),
+  step: "5",
+  unit: "°",
+});
+controls.append(texturePhaseControl.wrapper);
+
 const wallThicknessControl = rangeControl("wallThickness", {
   name: "Wall Thickness",
   min: String(MIN_WALL_THICKNESS),
@@ -210,10 +1349,390 @@ controls.append(wallThicknessControl.wrapper);
 
 const closedBottomControl = checkbox("closedBottom", {
   label: "Closed Bottom",
-  checked: START_CLOSED_BOTTOM,
+  checked: initialParams.closedBottom,
 });
 controls.append(closedBottomControl);
 
+const spiralModeControl = checkbox("spiralMode", {
+  label: "Spiral Vase Mode",
+  checked: initialParams.spiralMode,
+});
+controls.append(spiralModeControl);
+
+const bottomThicknessControl = rangeControl("bottomThickness", {
+  name: "Bottom Thickness",
+  min: String(MIN_BOTTOM_THICKNESS),
+  max: String(MAX_BOTTOM_THICKNESS),
+  sliderMin: String(MIN_BOTTOM_THICKNESS),
+  sliderMax: String(MAX_BOTTOM_THICKNESS),
+  step: "0.1",
+});
+controls.append(bottomThicknessControl.wrapper);
+
+const drainageHolesControl = rangeControl("drainageHoles", {
+  name: "Drainage Holes",
+  min: String(MIN_DRAINAGE_HOLES),
+  max: String(MAX_DRAINAGE_HOLES),
+  sliderMin: String(MIN_DRAINAGE_HOLES),
+  sliderMax: String(MAX_DRAINAGE_HOLES),
+  unit: "",
+});
+controls.append(drainageHolesControl.wrapper);
+
+const drainageHoleDiameterControl = rangeControl("drainageHoleDiameter", {
+  name: "Hole Diameter",
+  min: String(MIN_DRAINAGE_HOLE_DIAMETER),
+  max: String(MAX_DRAINAGE_HOLE_DIAMETER),
+  sliderMin: String(MIN_DRAINAGE_HOLE_DIAMETER),
+  sliderMax: String(MAX_DRAINAGE_HOLE_DIAMETER),
+  step: "0.5",
+});
+controls.append(drainageHoleDiameterControl.wrapper);
+
+const drainageRingRadiusControl = rangeControl("drainageRingRadius", {
+  name: "Hole Ring Radius",
+  min: String(MIN_DRAINAGE_RING_RADIUS),
+  max: String(MAX_DRAINAGE_RING_RADIUS),
+  sliderMin: String(MIN_DRAINAGE_RING_RADIUS),
+  sliderMax: String(MAX_DRAINAGE_RING_RADIUS),
+});
+controls.append(drainageRingRadiusControl.wrapper);
+
+const saucerControl = checkbox("saucer", {
+  label: "Drip Saucer",
+  checked: initialParams.saucer,
+});
+controls.append(saucerControl);
+
+const saucerClearanceControl = rangeControl("saucerClearance", {
+  name: "Saucer Clearance",
+  min: String(MIN_SAUCER_CLEARANCE),
+  max: String(MAX_SAUCER_CLEARANCE),
+  sliderMin: String(MIN_SAUCER_CLEARANCE),
+  sliderMax: String(MAX_SAUCER_CLEARANCE),
+  step: "0.5",
+});
+controls.append(saucerClearanceControl.wrapper);
+
+const saucerLipHeightControl = rangeControl("saucerLipHeight", {
+  name: "Saucer Lip Height",
+  min: String(MIN_SAUCER_LIP_HEIGHT),
+  max: String(MAX_SAUCER_LIP_HEIGHT),
+  sliderMin: String(MIN_SAUCER_LIP_HEIGHT),
+  sliderMax: String(MAX_SAUCER_LIP_HEIGHT),
+});
+controls.append(saucerLipHeightControl.wrapper);
+
+const linerControl = checkbox("liner", {
+  label: "Removable Liner",
+  checked: initialParams.liner,
+});
+controls.append(linerControl);
+
+const linerClearanceControl = rangeControl("linerClearance", {
+  name: "Liner Clearance",
+  min: String(MIN_LINER_CLEARANCE),
+  max: String(MAX_LINER_CLEARANCE),
+  sliderMin: String(MIN_LINER_CLEARANCE),
+  sliderMax: String(MAX_LINER_CLEARANCE),
+  step: "0.1",
+});
+controls.append(linerClearanceControl.wrapper);
+
+const linerNotchControl = checkbox("linerNotch", {
+  label: "Finger Notch",
+  checked: initialParams.linerNotch,
+});
+controls.append(linerNotchControl);
+
+const lidControl = select("lid", {
+  label: "Lid",
+  options: [
+    { value: "none", label: "None" },
+    { value: "plug", label: "Press-Fit Plug" },
+    { value: "cap", label: "Flip-On Cap" },
+    { value: "threaded", label: "Threaded" },
+  ] satisfies { value: LidStyle; label: string }[],
+});
+controls.append(lidControl.wrapper);
+
+const lidInterferenceControl = rangeControl("lidInterference", {
+  name: "Plug Interference",
+  min: String(MIN_LID_INTERFERENCE),
+  max: String(MAX_LID_INTERFERENCE),
+  sliderMin: String(MIN_LID_INTERFERENCE),
+  sliderMax: String(MAX_LID_INTERFERENCE),
+  step: "0.05",
+});
+controls.append(lidInterferenceControl.wrapper);
+
+const lidClearanceControl = rangeControl("lidClearance", {
+  name: "Cap Clearance",
+  min: String(MIN_LID_CLEARANCE),
+  max: String(MAX_LID_CLEARANCE),
+  sliderMin: String(MIN_LID_CLEARANCE),
+  sliderMax: String(MAX_LID_CLEARANCE),
+  step: "0.1",
+});
+controls.append(lidClearanceControl.wrapper);
+
+const threadPitchControl = rangeControl("threadPitch", {
+  name: "Thread Pitch",
+  min: String(MIN_THREAD_PITCH),
+  max: String(MAX_THREAD_PITCH),
+  sliderMin: String(MIN_THREAD_PITCH),
+  sliderMax: String(MAX_THREAD_PITCH),
+  step: "0.5",
+});
+controls.append(threadPitchControl.wrapper);
+
+const threadTurnsControl = rangeControl("threadTurns", {
+  name: "Thread Turns",
+  min: String(MIN_THREAD_TURNS),
+  max: String(MAX_THREAD_TURNS),
+  sliderMin: String(MIN_THREAD_TURNS),
+  sliderMax: String(MAX_THREAD_TURNS),
+  step: "0.5",
+  unit: "",
+});
+controls.append(threadTurnsControl.wrapper);
+
+const threadToleranceControl = rangeControl("threadTolerance", {
+  name: "Thread Tolerance",
+  min: String(MIN_THREAD_TOLERANCE),
+  max: String(MAX_THREAD_TOLERANCE),
+  sliderMin: String(MIN_THREAD_TOLERANCE),
+  sliderMax: String(MAX_THREAD_TOLERANCE),
+  step: "0.05",
+});
+controls.append(threadToleranceControl.wrapper);
+
+const frogControl = select("frog", {
+  label: "Flower Frog",
+  options: [
+    { value: "none", label: "None" },
+    { value: "grid", label: "Grid" },
+    { value: "radial", label: "Radial" },
+  ] satisfies { value: FrogPattern; label: string }[],
+});
+controls.append(frogControl.wrapper);
+
+const frogHolesControl = rangeControl("frogHoles", {
+  name: "Frog Holes",
+  min: String(MIN_FROG_HOLES),
+  max: String(MAX_FROG_HOLES),
+  sliderMin: String(MIN_FROG_HOLES),
+  sliderMax: String(MAX_FROG_HOLES),
+  unit: "",
+});
+controls.append(frogHolesControl.wrapper);
+
+const frogHoleDiameterControl = rangeControl("frogHoleDiameter", {
+  name: "Frog Hole Diameter",
+  min: String(MIN_FROG_HOLE_DIAMETER),
+  max: String(MAX_FROG_HOLE_DIAMETER),
+  sliderMin: String(MIN_FROG_HOLE_DIAMETER),
+  sliderMax: String(MAX_FROG_HOLE_DIAMETER),
+  step: "0.5",
+});
+controls.append(frogHoleDiameterControl.wrapper);
+
+const frogThicknessControl = rangeControl("frogThickness", {
+  name: "Frog Thickness",
+  min: String(MIN_FROG_THICKNESS),
+  max: String(MAX_FROG_THICKNESS),
+  sliderMin: String(MIN_FROG_THICKNESS),
+  sliderMax: String(MAX_FROG_THICKNESS),
+  step: "0.5",
+});
+controls.append(frogThicknessControl.wrapper);
+
+const textControl = textInput("text", {
+  label: "Text",
+  maxLength: MAX_TEXT_LENGTH,
+  placeholder: "None",
+});
+controls.append(textControl.wrapper);
+
+const textModeControl = select("textMode", {
+  label: "Text Style",
+  options: [
+    { value: "emboss", label: "Embossed" },
+    { value: "deboss", label: "Debossed" },
+  ] satisfies { value: TextMode; label: string }[],
+});
+controls.append(textModeControl.wrapper);
+
+const textSizeControl = rangeControl("textSize", {
+  name: "Font Size",
+  min: String(MIN_TEXT_SIZE),
+  max: String(MAX_TEXT_SIZE),
+  sliderMin: String(MIN_TEXT_SIZE),
+  sliderMax: String(MAX_TEXT_SIZE),
+});
+controls.append(textSizeControl.wrapper);
+
+const textDepthControl = rangeControl("textDepth", {
+  name: "Text Depth",
+  min: String(MIN_TEXT_DEPTH),
+  max: String(MAX_TEXT_DEPTH),
+  sliderMin: String(MIN_TEXT_DEPTH),
+  sliderMax: String(MAX_TEXT_DEPTH),
+  step: "0.1",
+});
+controls.append(textDepthControl.wrapper);
+
+const textPositionControl = rangeControl("textPosition", {
+  name: "Text Height",
+  min: String(MIN_TEXT_POSITION),
+  max: String(MAX_TEXT_POSITION),
+  sliderMin: String(MIN_TEXT_POSITION),
+  sliderMax: String(MAX_TEXT_POSITION),
+  unit: "%",
+});
+controls.append(textPositionControl.wrapper);
+
+const textAngleControl = rangeControl("textAngle", {
+  name: "Text Angle",
+  min: String(MIN_TEXT_ANGLE),
+  max: String(MAX_TEXT_ANGLE),
+  sliderMin: String(MIN_TEXT_ANGLE),
+  sliderMax: String(MAX_TEXT_ANGLE),
+  step: "5",
+  unit: "°",
+});
+controls.append(textAngleControl.wrapper);
+
+// The nozzle width is used both for spiral vase mode and for the analysis
+const nozzleWidthControl = rangeControl("nozzleWidth", {
+  name: "Nozzle Width",
+  min: String(MIN_NOZZLE_WIDTH),
+  max: String(MAX_NOZZLE_WIDTH),
+  sliderMin: String(MIN_NOZZLE_WIDTH),
+  sliderMax: String(MAX_NOZZLE_WIDTH),
+  step: "0.05",
+});
+controls.append(nozzleWidthControl.wrapper);
+
+// The mesh resolution, for both the preview and the downloaded model
+const resolutionControl = select("resolution", {
+  label: "Resolution",
+  options: [
+    { value: "draft", label: "Draft" },
+    { value: "normal", label: "Normal" },
+    { value: "fine", label: "Fine" },
+    { value: "custom", label: "Custom" },
+  ] satisfies { value: Resolution; label: string }[],
+});
+controls.append(resolutionControl.wrapper);
+
+const chordErrorControl = rangeControl("chordError", {
+  name: "Max Chord Error",
+  min: String(MIN_CHORD_ERROR),
+  max: String(MAX_CHORD_ERROR),
+  sliderMin: String(MIN_CHORD_ERROR),
+  sliderMax: String(MAX_CHORD_ERROR),
+  step: "0.01",
+});
+controls.append(chordErrorControl.wrapper);
+
+const overhangAngleControl = rangeControl("overhangAngle", {
+  name: "Max Overhang",
+  min: String(MIN_OVERHANG_ANGLE),
+  max: String(MAX_OVERHANG_ANGLE),
+  sliderMin: String(MIN_OVERHANG_ANGLE),
+  sliderMax: String(MAX_OVERHANG_ANGLE),
+  step: "5",
+  unit: "°",
+});
+controls.append(overhangAngleControl.wrapper);
+
+const minWallLinesControl = rangeControl("minWallLines", {
+  name: "Min Wall Lines",
+  min: String(MIN_MIN_WALL_LINES),
+  max: String(MAX_MIN_WALL_LINES),
+  sliderMin: String(MIN_MIN_WALL_LINES),
+  sliderMax: String(MAX_MIN_WALL_LINES),
+  unit: "",
+});
+controls.append(minWallLinesControl.wrapper);
+
+// Printability warnings
+const warningsList = document.createElement("ul");
+warningsList.className = "warnings";
+controls.append(warningsList);
+
+const materialControl = select("material", {
+  label: "Material",
+  options: (Object.keys(MATERIALS) as Material[]).map((material) => ({
+    value: material,
+    label: MATERIALS[material].label,
+  })),
+});
+controls.append(materialControl.wrapper);
+
+const costPerKgControl = rangeControl("costPerKg", {
+  name: "Cost per kg",
+  min: String(MIN_COST_PER_KG),
+  max: String(MAX_COST_PER_KG),
+  sliderMin: String(MIN_COST_PER_KG),
+  sliderMax: String(MAX_COST_PER_KG),
+  unit: "",
+});
+controls.append(costPerKgControl.wrapper);
+
+// Volume, capacity, filament & cost readout
+const estimatesList = document.createElement("dl");
+estimatesList.className = "estimates";
+controls.append(estimatesList);
+
+// Presets: save the current design, and load, rename or delete saved designs
+const presetsPanel = document.createElement("div");
+presetsPanel.className = "presets";
+link.after(presetsPanel);
+
+const presetsTitle = document.createElement("h2");
+presetsTitle.textContent = "Presets";
+
+const presetNameControl = textInput("presetName", {
+  label: "Name",
+  maxLength: 64,
+  placeholder: "My vase",
+});
+
+const savePresetButton = document.createElement("button");
+savePresetButton.textContent = "Save";
+presetNameControl.wrapper.append(savePresetButton);
+
+const presetsList = document.createElement("ul");
+presetsList.className = "presets-list";
+
+const importPresetsInput = document.createElement("input");
+importPresetsInput.type = "file";
+importPresetsInput.accept = ".json,application/json";
+importPresetsInput.hidden = true;
+
+const importPresetsButton = document.createElement("button");
+importPresetsButton.textContent = "Import";
+
+const exportPresetsButton = document.createElement("button");
+exportPresetsButton.textContent = "Export";
+
+const presetsLibraryActions = document.createElement("div");
+presetsLibraryActions.className = "presets-library";
+presetsLibraryActions.append(
+  importPresetsButton,
+  exportPresetsButton,
+  importPresetsInput,
+);
+
+presetsPanel.append(
+  presetsTitle,
+  presetNameControl.wrapper,
+  presetsList,
+  presetsLibraryActions,
+);
+
 // The dimension inputs
 const inputs = {
   height: heightControl.input,
@@ -223,69 +1742,896 @@ const inputs = {
   wallThickness: wallThicknessControl.input,
   wallThicknessRange: wallThicknessControl.range,
   closedBottom: document.querySelector("#closedBottom")! as HTMLInputElement,
+  spiralMode: document.querySelector("#spiralMode")! as HTMLInputElement,
+  saucer: document.querySelector("#saucer")! as HTMLInputElement,
+  liner: document.querySelector("#liner")! as HTMLInputElement,
+  linerNotch: document.querySelector("#linerNotch")! as HTMLInputElement,
+  exploded: document.querySelector("#exploded")! as HTMLInputElement,
+  showLid: document.querySelector("#showLid")! as HTMLInputElement,
+  dimensions: document.querySelector("#dimensions")! as HTMLInputElement,
+  cutaway: document.querySelector("#cutaway")! as HTMLInputElement,
+  orbit: document.querySelector("#orbit")! as HTMLInputElement,
 } as const;
 
 // Add change events to all dimension inputs
 
-// height
-(
-  [
-    [inputs.height, "change"],
-    [inputs.heightRange, "input"],
-  ] as const
-).forEach(([input, evnt]) => {
-  modelDimensions.height.addListener((height) => {
-    input.value = `${height}`;
+// unit (the annotations are redrawn in the new unit)
+unit.addListener((value) => {
+  unitControl.input.value = value;
+  drawDimensions();
+});
+unitControl.input.addEventListener("change", () => {
+  unit.send(unitControl.input.value as Unit);
+});
+
+// Binds a range control to a length (in mm), shown in the chosen unit. The
+// slider's bounds & step (given in mm) are converted to the unit, and lengths
+// can be typed as decimals or fractions, in another unit too (see parseLength).
+const bindLengthControl = (
+  control: { input: HTMLInputElement; range: HTMLInputElement },
+  dyn: Dyn<number>,
+  [min, max]: [number, number],
+) => {
+  const { input, range } = control;
+  const slider = {
+    min: parseFloat(range.min),
+    max: parseFloat(range.max),
+    step: parseFloat(range.step),
+  };
+
+  // Number inputs don't accept fractions
+  input.type = "text";
+  input.inputMode = "decimal";
+
+  const show = () => {
+    input.value = `${toUnit(dyn.latest, unit.latest)}`;
+    range.value = input.value;
+  };
+  unit.addListener((value) => {
+    range.min = `${toUnit(slider.min, value)}`;
+    range.max = `${toUnit(slider.max, value)}`;
+    range.step = `${lengthStep(slider.step, value)}`;
+    input.parentElement!.dataset.unit = UNITS[value].label;
+    show();
+  });
+  dyn.addListener(show);
+
+  input.addEventListener("change", () => {
+    const length = parseLength(input.value, unit.latest);
+    if (length !== undefined) dyn.send(Math.max(min, Math.min(length, max)));
+    show(); // e.g. "4 1/2" becomes "4.5", and invalid input is reverted
   });
-  input.addEventListener(evnt, () => {
-    const value = parseInt(input.value);
-    if (!Number.isNaN(value))
-      modelDimensions.height.send(Math.max(MIN_HEIGHT, Math.min(value, MAX_HEIGHT)));
+  range.addEventListener("input", () => {
+    const length = fromUnit(parseFloat(range.value), unit.latest);
+    if (!Number.isNaN(length)) dyn.send(Math.max(min, Math.min(length, max)));
   });
+};
+
+bindLengthControl(heightControl, modelDimensions.height, [
+  MIN_HEIGHT,
+  MAX_HEIGHT,
+]);
+bindLengthControl(outerRadiusControl, modelDimensions.outerRadius, [
+  MIN_OUTER_RADIUS,
+  MAX_OUTER_RADIUS,
+]);
+bindLengthControl(wallThicknessControl, modelDimensions.wallThickness, [
+  MIN_WALL_THICKNESS,
+  MAX_WALL_THICKNESS,
+]);
+
+// closed bottom
+modelDimensions.closedBottom.addListener((closedBottom) => {
+  inputs.closedBottom.checked = closedBottom;
+});
+inputs.closedBottom.addEventListener("change", () => {
+  modelDimensions.closedBottom.send(inputs.closedBottom.checked);
+});
+
+// profile shape (presets)
+modelDimensions.profile.addListener((profile) => {
+  profileShapeControl.input.value = profileShape(profile);
+});
+profileShapeControl.input.addEventListener("change", () => {
+  const shape = profileShapeControl.input.value as ProfileShape;
+  // Picking "custom" keeps the current control points, which can then be edited
+  if (shape !== "custom") {
+    modelDimensions.profile.send(PROFILE_PRESETS[shape]);
+  }
 });
 
-// outer radius
-(
-  [
-    [inputs.outerRadius, "change"],
-    [inputs.outerRadiusRange, "input"],
-  ] as const
-).forEach(([input, evnt]) => {
-  modelDimensions.outerRadius.addListener((radius) => {
-    input.value = `${radius}`;
+// profile control points
+profileControls.forEach((control, i) => {
+  (
+    [
+      [control.input, "change"],
+      [control.range, "input"],
+    ] as const
+  ).forEach(([input, evnt]) => {
+    modelDimensions.profile.addListener((profile) => {
+      input.value = `${Math.round(profile[i] * 100)}`;
+    });
+    input.addEventListener(evnt, () => {
+      const value = parseInt(input.value);
+      if (Number.isNaN(value)) return;
+
+      const ratio =
+        Math.max(MIN_PROFILE_PERCENT, Math.min(value, MAX_PROFILE_PERCENT)) /
+        100;
+      modelDimensions.profile.update((profile) =>
+        profile.map((r, j) => (j === i ? ratio : r)),
+      );
+    });
   });
-  input.addEventListener(evnt, () => {
-    const value = parseInt(input.value);
-    if (!Number.isNaN(value))
-      modelDimensions.outerRadius.send(Math.max(MIN_OUTER_RADIUS, Math.min(value, MAX_OUTER_RADIUS)));
+});
+
+// Binds a range control to a numeric dimension. The displayed value is the
+// dimension's value multiplied by 'scale' (e.g. 100 for percentages). Values
+// of integer dimensions (e.g. a number of sides) are rounded.
+const bindRangeControl = (
+  control: { input: HTMLInputElement; range: HTMLInputElement },
+  dyn: Dyn<number>,
+  [min, max]: [number, number],
+  { scale = 1, integer = false }: { scale?: number; integer?: boolean } = {},
+) => {
+  (
+    [
+      [control.input, "change"],
+      [control.range, "input"],
+    ] as const
+  ).forEach(([input, evnt]) => {
+    dyn.addListener((val) => {
+      input.value = `${Math.round(val * scale * 100) / 100}`;
+    });
+    input.addEventListener(evnt, () => {
+      const value = parseFloat(input.value);
+      if (Number.isNaN(value)) return;
+
+      const clamped = Math.max(min, Math.min(value / scale, max));
+      dyn.send(integer ? Math.round(clamped) : clamped);
+    });
   });
+};
+
+// section
+modelDimensions.section.addListener((section) => {
+  sectionControl.input.value = section;
+  sidesControl.wrapper.hidden = section === "circle";
+  starRatioControl.wrapper.hidden = section !== "star";
+  cornerRadiusControl.wrapper.hidden = section !== "rounded-polygon";
+});
+sectionControl.input.addEventListener("change", () => {
+  modelDimensions.section.send(sectionControl.input.value as SectionShape);
+});
+
+bindRangeControl(sidesControl, modelDimensions.sides, [MIN_SIDES, MAX_SIDES], {
+  integer: true,
+});
+bindRangeControl(
+  starRatioControl,
+  modelDimensions.starRatio,
+  [MIN_STAR_RATIO, MAX_STAR_RATIO],
+  { scale: 100 },
+);
+bindLengthControl(cornerRadiusControl, modelDimensions.cornerRadius, [
+  MIN_CORNER_RADIUS,
+  MAX_CORNER_RADIUS,
+]);
+bindRangeControl(twistControl, modelDimensions.twist, [MIN_TWIST, MAX_TWIST]);
+bindRangeControl(
+  scaleTopControl,
+  modelDimensions.scaleTop,
+  [MIN_SCALE_TOP, MAX_SCALE_TOP],
+  { scale: 100 },
+);
+
+// texture
+// (the settings are only shown when there's a texture, and the repeats along
+// the height only for textures that vary along the height)
+modelDimensions.texture.addListener((texture) => {
+  textureControl.input.value = texture;
+  textureAmplitudeControl.wrapper.hidden = texture === "none";
+  textureCountControl.wrapper.hidden = texture === "none";
+  textureRowsControl.wrapper.hidden =
+    texture !== "waves" && texture !== "knurl";
+  texturePhaseControl.wrapper.hidden = texture === "none";
+});
+textureControl.input.addEventListener("change", () => {
+  modelDimensions.texture.send(textureControl.input.value as Texture);
+});
+
+bindLengthControl(textureAmplitudeControl, modelDimensions.textureAmplitude, [
+  MIN_TEXTURE_AMPLITUDE,
+  MAX_TEXTURE_AMPLITUDE,
+]);
+bindRangeControl(
+  textureCountControl,
+  modelDimensions.textureCount,
+  [MIN_TEXTURE_COUNT, MAX_TEXTURE_COUNT],
+  { integer: true },
+);
+bindRangeControl(textureRowsControl, modelDimensions.textureRows, [
+  MIN_TEXTURE_ROWS,
+  MAX_TEXTURE_ROWS,
+]);
+bindRangeControl(texturePhaseControl, modelDimensions.texturePhase, [
+  MIN_TEXTURE_PHASE,
+  MAX_TEXTURE_PHASE,
+]);
+
+// spiral vase mode
+// (the wall thickness is then decided by the nozzle when slicing)
+Dyn.sequence([
+  modelDimensions.spiralMode,
+  modelDimensions.closedBottom,
+] as const).addListener(([spiralMode, closedBottom]) => {
+  inputs.spiralMode.checked = spiralMode;
+  wallThicknessControl.wrapper.hidden = spiralMode;
+  bottomThicknessControl.wrapper.hidden = !spiralMode || !closedBottom;
+});
+inputs.spiralMode.addEventListener("change", () => {
+  modelDimensions.spiralMode.send(inputs.spiralMode.checked);
+});
+
+bindLengthControl(bottomThicknessControl, modelDimensions.bottomThickness, [
+  MIN_BOTTOM_THICKNESS,
+  MAX_BOTTOM_THICKNESS,
+]);
+bindRangeControl(nozzleWidthControl, modelDimensions.nozzleWidth, [
+  MIN_NOZZLE_WIDTH,
+  MAX_NOZZLE_WIDTH,
+]);
+
+// resolution (presets & max chord error, in mm whatever the unit)
+modelDimensions.chordError.addListener((chordError) => {
+  resolutionControl.input.value = resolution(chordError);
+});
+resolutionControl.input.addEventListener("change", () => {
+  const preset = resolutionControl.input.value as Resolution;
+  // Picking "custom" keeps the current chord error, which can then be edited
+  if (preset !== "custom") {
+    modelDimensions.chordError.send(RESOLUTION_PRESETS[preset]);
+  }
+});
+bindRangeControl(chordErrorControl, modelDimensions.chordError, [
+  MIN_CHORD_ERROR,
+  MAX_CHORD_ERROR,
+]);
+
+// drainage holes
+// (only cut through closed bottoms, and not in spiral vase mode where the bottom
+// is decided by the slicer)
+Dyn.sequence([
+  modelDimensions.drainageHoles,
+  modelDimensions.closedBottom,
+  modelDimensions.spiralMode,
+] as const).addListener(([drainageHoles, closedBottom, spiralMode]) => {
+  const available = closedBottom && !spiralMode;
+  drainageHolesControl.wrapper.hidden = !available;
+  drainageHoleDiameterControl.wrapper.hidden =
+    !available || drainageHoles === 0;
+  drainageRingRadiusControl.wrapper.hidden = !available || drainageHoles === 0;
+});
+
+bindRangeControl(
+  drainageHolesControl,
+  modelDimensions.drainageHoles,
+  [MIN_DRAINAGE_HOLES, MAX_DRAINAGE_HOLES],
+  { integer: true },
+);
+bindLengthControl(
+  drainageHoleDiameterControl,
+  modelDimensions.drainageHoleDiameter,
+  [MIN_DRAINAGE_HOLE_DIAMETER, MAX_DRAINAGE_HOLE_DIAMETER],
+);
+bindLengthControl(
+  drainageRingRadiusControl,
+  modelDimensions.drainageRingRadius,
+  [MIN_DRAINAGE_RING_RADIUS, MAX_DRAINAGE_RING_RADIUS],
+);
+
+// saucer
+modelDimensions.saucer.addListener((saucer) => {
+  inputs.saucer.checked = saucer;
+  saucerClearanceControl.wrapper.hidden = !saucer;
+  saucerLipHeightControl.wrapper.hidden = !saucer;
+});
+inputs.saucer.addEventListener("change", () => {
+  modelDimensions.saucer.send(inputs.saucer.checked);
+});
+
+bindLengthControl(saucerClearanceControl, modelDimensions.saucerClearance, [
+  MIN_SAUCER_CLEARANCE,
+  MAX_SAUCER_CLEARANCE,
+]);
+bindLengthControl(saucerLipHeightControl, modelDimensions.saucerLipHeight, [
+  MIN_SAUCER_LIP_HEIGHT,
+  MAX_SAUCER_LIP_HEIGHT,
+]);
+
+// liner
+modelDimensions.liner.addListener((liner) => {
+  inputs.liner.checked = liner;
+  linerClearanceControl.wrapper.hidden = !liner;
+  linerNotchControl.hidden = !liner;
+});
+inputs.liner.addEventListener("change", () => {
+  modelDimensions.liner.send(inputs.liner.checked);
+});
+
+bindLengthControl(linerClearanceControl, modelDimensions.linerClearance, [
+  MIN_LINER_CLEARANCE,
+  MAX_LINER_CLEARANCE,
+]);
+
+modelDimensions.linerNotch.addListener((notch) => {
+  inputs.linerNotch.checked = notch;
+});
+inputs.linerNotch.addEventListener("change", () => {
+  modelDimensions.linerNotch.send(inputs.linerNotch.checked);
+});
+
+// lid
+// (the settings of the chosen closure only)
+modelDimensions.lid.addListener((lid) => {
+  lidControl.input.value = lid;
+  lidInterferenceControl.wrapper.hidden = lid !== "plug";
+  lidClearanceControl.wrapper.hidden = lid !== "cap";
+  threadPitchControl.wrapper.hidden = lid !== "threaded";
+  threadTurnsControl.wrapper.hidden = lid !== "threaded";
+  threadToleranceControl.wrapper.hidden = lid !== "threaded";
+  showLidControl.hidden = lid === "none";
+});
+lidControl.input.addEventListener("change", () => {
+  modelDimensions.lid.send(lidControl.input.value as LidStyle);
+});
+
+bindLengthControl(lidInterferenceControl, modelDimensions.lidInterference, [
+  MIN_LID_INTERFERENCE,
+  MAX_LID_INTERFERENCE,
+]);
+bindLengthControl(lidClearanceControl, modelDimensions.lidClearance, [
+  MIN_LID_CLEARANCE,
+  MAX_LID_CLEARANCE,
+]);
+bindLengthControl(threadPitchControl, modelDimensions.threadPitch, [
+  MIN_THREAD_PITCH,
+  MAX_THREAD_PITCH,
+]);
+bindRangeControl(threadTurnsControl, modelDimensions.threadTurns, [
+  MIN_THREAD_TURNS,
+  MAX_THREAD_TURNS,
+]);
+bindLengthControl(threadToleranceControl, modelDimensions.threadTolerance, [
+  MIN_THREAD_TOLERANCE,
+  MAX_THREAD_TOLERANCE,
+]);
+
+// flower frog
+// (only without a lid, which would take the frog's place in the rim)
+Dyn.sequence([modelDimensions.frog, modelDimensions.lid] as const).addListener(
+  ([frog, lid]) => {
+    frogControl.input.value = frog;
+    frogControl.wrapper.hidden = lid !== "none";
+    frogHolesControl.wrapper.hidden = frog === "none" || lid !== "none";
+    frogHoleDiameterControl.wrapper.hidden = frog === "none" || lid !== "none";
+    frogThicknessControl.wrapper.hidden = frog === "none" || lid !== "none";
+  },
+);
+frogControl.input.addEventListener("change", () => {
+  modelDimensions.frog.send(frogControl.input.value as FrogPattern);
+});
+
+bindRangeControl(
+  frogHolesControl,
+  modelDimensions.frogHoles,
+  [MIN_FROG_HOLES, MAX_FROG_HOLES],
+  { integer: true },
+);
+bindLengthControl(frogHoleDiameterControl, modelDimensions.frogHoleDiameter, [
+  MIN_FROG_HOLE_DIAMETER,
+  MAX_FROG_HOLE_DIAMETER,
+]);
+bindLengthControl(frogThicknessControl, modelDimensions.frogThickness, [
+  MIN_FROG_THICKNESS,
+  MAX_FROG_THICKNESS,
+]);
+
+showLid.addListener((value) => {
+  inputs.showLid.checked = value;
+});
+inputs.showLid.addEventListener("change", () => {
+  showLid.send(inputs.showLid.checked);
+});
+
+// exploded view (only when there are several parts)
+Dyn.sequence([
+  modelDimensions.liner,
+  modelDimensions.saucer,
+  modelDimensions.lid,
+  modelDimensions.frog,
+] as const).addListener(([liner, saucer, lid, frog]) => {
+  explodedControl.hidden =
+    !liner && !saucer && lid === "none" && frog === "none";
+});
+exploded.addListener((value) => {
+  inputs.exploded.checked = value;
+});
+inputs.exploded.addEventListener("change", () => {
+  exploded.send(inputs.exploded.checked);
+});
+
+// dimension annotations
+showDimensions.addListener((value) => {
+  inputs.dimensions.checked = value;
+  drawDimensions();
+});
+inputs.dimensions.addEventListener("change", () => {
+  showDimensions.send(inputs.dimensions.checked);
+});
+
+// imported mesh, shown in place of the model with its bounding box (the
+// controls are disabled in the meantime)
+importedMesh.addListener((imported) => {
+  importedBanner.hidden = imported === undefined;
+  controls.inert = imported !== undefined;
+
+  if (imported === undefined) {
+    reloadModelNeeded = true;
+    return;
+  }
+
+  const geometry = mesh2geometry(imported.positions);
+  geometry.computeVertexNormals();
+  geometry.computeBoundingBox();
+  mesh.geometry.dispose();
+  mesh.geometry = geometry;
+  mesh.clear(); // Remove all children
+
+  const box = new THREE.Box3Helper(geometry.boundingBox!, 0xe8542a);
+  (box.material as THREE.LineBasicMaterial).depthTest = false;
+  box.layers.set(OVERLAY_LAYER);
+  mesh.add(box);
+
+  shownParams = undefined;
+  shownVase = undefined;
+  showHighlight();
+  drawDimensions();
+  centerCameraNeeded = true;
+});
+Dyn.sequence([importedMesh, unit] as const).addListener(
+  ([imported, lengthUnit]) => {
+    if (imported !== undefined) {
+      const [width, depth, height] = imported.size.map((length) =>
+        formatLength(length, lengthUnit),
+      );
+      importedLabel.textContent = `${imported.name} (read-only): ${width} × ${depth} × ${height}`;
+    }
+  },
+);
+closeImportedButton.addEventListener("click", () => {
+  importedMesh.send(undefined);
+});
+
+// cutaway (the position is only shown when the model is cut)
+cutaway.addListener((value) => {
+  inputs.cutaway.checked = value;
+  cutPositionControl.wrapper.hidden = !value;
+});
+inputs.cutaway.addEventListener("change", () => {
+  cutaway.send(inputs.cutaway.checked);
+});
+bindRangeControl(cutPositionControl, cutPosition, [
+  MIN_CUT_POSITION,
+  MAX_CUT_POSITION,
+]);
+
+// orbit (leaving orbit mode goes back to the default view)
+orbit.addListener((value) => {
+  inputs.orbit.checked = value;
+  canvas.classList.toggle("orbit", value);
+  if (!value) {
+    showView(DEFAULT_VIEW);
+  }
+});
+inputs.orbit.addEventListener("change", () => {
+  orbit.send(inputs.orbit.checked);
+});
+
+// text
+// (the text settings are only shown when there's some text)
+modelDimensions.text.addListener((text) => {
+  // Don't overwrite the input while typing (which would move the cursor)
+  if (textControl.input.value !== text) {
+    textControl.input.value = text;
+  }
+  const hidden = text.trim() === "";
+  textModeControl.wrapper.hidden = hidden;
+  textSizeControl.wrapper.hidden = hidden;
+  textDepthControl.wrapper.hidden = hidden;
+  textPositionControl.wrapper.hidden = hidden;
+  textAngleControl.wrapper.hidden = hidden;
+});
+textControl.input.addEventListener("input", () => {
+  modelDimensions.text.send(textControl.input.value);
+});
+
+modelDimensions.textMode.addListener((textMode) => {
+  textModeControl.input.value = textMode;
+});
+textModeControl.input.addEventListener("change", () => {
+  modelDimensions.textMode.send(textModeControl.input.value as TextMode);
+});
+
+bindLengthControl(textSizeControl, modelDimensions.textSize, [
+  MIN_TEXT_SIZE,
+  MAX_TEXT_SIZE,
+]);
+bindLengthControl(textDepthControl, modelDimensions.textDepth, [
+  MIN_TEXT_DEPTH,
+  MAX_TEXT_DEPTH,
+]);
+bindRangeControl(textPositionControl, modelDimensions.textPosition, [
+  MIN_TEXT_POSITION,
+  MAX_TEXT_POSITION,
+]);
+bindRangeControl(textAngleControl, modelDimensions.textAngle, [
+  MIN_TEXT_ANGLE,
+  MAX_TEXT_ANGLE,
+]);
+
+// printability analysis
+bindRangeControl(overhangAngleControl, analysisSettings.overhangAngle, [
+  MIN_OVERHANG_ANGLE,
+  MAX_OVERHANG_ANGLE,
+]);
+bindRangeControl(minWallLinesControl, analysisSettings.minWallLines, [
+  MIN_MIN_WALL_LINES,
+  MAX_MIN_WALL_LINES,
+]);
+
+analysis.addListener((result) => {
+  // Keep the previous warnings while the analysis is running, to avoid flicker
+  if (result === undefined) return;
+
+  if (result === "failed") {
+    const item = document.createElement("li");
+    item.textContent = "The model could not be analyzed";
+    warningsList.replaceChildren(item);
+    return;
+  }
+
+  warningsList.replaceChildren(
+    ...result.warnings.map(({ kind, message }) => {
+      const item = document.createElement("li");
+      item.dataset.kind = kind;
+      item.textContent = message;
+      return item;
+    }),
+  );
+});
+
+// estimates
+material.addListener((material) => {
+  materialControl.input.value = material;
+});
+materialControl.input.addEventListener("change", () => {
+  material.send(materialControl.input.value as Material);
+});
+
+bindRangeControl(imageWidthControl, imageWidth, [
+  MIN_IMAGE_WIDTH,
+  MAX_IMAGE_WIDTH,
+]);
+
+// Downloads the blob as a file. The blob is released once the download has
+// started.
+const downloadBlob = (blob: Blob, filename: string) => {
+  const download = document.createElement("a");
+  download.href = URL.createObjectURL(blob);
+  download.download = filename;
+  download.click();
+  setTimeout(() => URL.revokeObjectURL(download.href), 0);
+};
+
+// Saves the file, named after the model shown
+const saveImage = (blob: Blob, extension: string) =>
+  downloadBlob(
+    blob,
+    `${modelBasename(shownParams ?? modelParams(), unit.latest)}.${extension}`,
+  );
+
+pngButton.addEventListener("click", async () => {
+  saveImage(await renderer.renderImage(imageWidth.latest), "png");
+});
+svgButton.addEventListener("click", () => {
+  const svg = renderer.drawLines(imageWidth.latest);
+  saveImage(new Blob([svg], { type: "image/svg+xml" }), "svg");
+});
+
+bindRangeControl(costPerKgControl, costPerKg, [
+  MIN_COST_PER_KG,
+  MAX_COST_PER_KG,
+]);
+
+// The estimates, as shown (term & value)
+const estimateRows = ({
+  capacity,
+  volume,
+  filamentLength,
+  weight,
+  cost,
+}: Estimate): [string, string][] => [
+  ["Capacity", capacity === undefined ? "n/a" : `${capacity.toFixed(0)} mL`],
+  ["Volume", `${volume.toFixed(1)} cm³`],
+  ["Filament", `${filamentLength.toFixed(2)} m`],
+  ["Weight", `${weight.toFixed(0)} g`],
+  ["Cost", cost.toFixed(2)],
+];
+
+Dyn.sequence([volumes, material, costPerKg] as const).addListener(
+  ([volumes, material, costPerKg]) => {
+    // Keep the previous estimates while computing, to avoid flicker
+    if (volumes === undefined) return;
+
+    const rows: [string, string][] =
+      volumes === "failed"
+        ? [["Estimates", "unavailable"]]
+        : estimateRows(estimate(volumes, material, costPerKg));
+
+    estimatesList.replaceChildren(
+      ...rows.flatMap(([term, value]) => {
+        const dt = document.createElement("dt");
+        dt.textContent = term;
+        const dd = document.createElement("dd");
+        dd.textContent = value;
+        return [dt, dd];
+      }),
+    );
+  },
+);
+
+// history
+function updateHistoryButtons() {
+  undoButton.disabled = !history.canUndo;
+  redoButton.disabled = !history.canRedo;
+}
+updateHistoryButtons();
+
+undoButton.addEventListener("click", () => undo());
+redoButton.addEventListener("click", () => redo());
+
+window.addEventListener("keydown", (e) => {
+  if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+
+  // Leave free-text fields (e.g. the inscription) to the browser's own undo.
+  // Lengths are typed in text fields too (see bindLengthControl), but are
+  // undone like any other parameter.
+  if (
+    e.target instanceof HTMLInputElement &&
+    e.target.type === "text" &&
+    e.target.inputMode !== "decimal"
+  )
+    return;
+
+  e.preventDefault();
+  if (e.shiftKey) {
+    redo();
+  } else {
+    undo();
+  }
+});
+
+// Edits made while dragging are recorded when the drag ends
+controls.addEventListener("pointerdown", () => {
+  dragging = true;
+});
+["pointerup", "pointercancel"].forEach((evt) =>
+  window.addEventListener(evt, () => {
+    if (dragging) {
+      dragging = false;
+      recordHistory();
+    }
+  }),
+);
+
+// presets
+savePresetButton.addEventListener("click", () => {
+  const name = presetNameControl.input.value.trim();
+  if (name === "") {
+    presetNameControl.input.focus();
+    return;
+  }
+
+  // Saving under an existing name replaces that preset
+  const preset: Preset = {
+    name,
+    params: modelParams(),
+    thumbnail: renderer.snapshot(THUMBNAIL_WIDTH),
+  };
+  presets.update((presets) => [
+    ...presets.filter((p) => p.name !== name),
+    preset,
+  ]);
+  presetNameControl.input.value = "";
 });
 
-// wall thickness
-(
-  [
-    [inputs.wallThickness, "change"],
-    [inputs.wallThicknessRange, "input"],
-  ] as const
-).forEach(([input, evnt]) => {
-  modelDimensions.wallThickness.addListener((thickness) => {
-    input.value = `${thickness}`;
+// A list item showing the preset, with actions to load it and, for saved
+// presets, to rename or delete it
+function presetItem(preset: Preset, saved: boolean): HTMLLIElement {
+  const item = document.createElement("li");
+
+  const thumbnail = document.createElement("div");
+  thumbnail.className = "preset-thumbnail";
+  if (preset.thumbnail !== undefined) {
+    const img = document.createElement("img");
+    img.src = preset.thumbnail;
+    img.alt = "";
+    thumbnail.append(img);
+  }
+
+  const name = document.createElement("input");
+  name.type = "text";
+  name.value = preset.name;
+  name.readOnly = !saved;
+  name.title = saved ? "Rename" : "Starter design";
+  name.addEventListener("change", () => {
+    const newName = name.value.trim();
+    presets.update((presets) => {
+      const others = presets.filter((p) => p !== preset);
+      return newName === ""
+        ? [...presets] // reset the name
+        : presets.map((p) =>
+            p === preset ? { ...p, name: uniqueName(newName, others) } : p,
+          );
+    });
   });
-  input.addEventListener(evnt, () => {
-    const value = parseInt(input.value);
-    if (!Number.isNaN(value))
-      modelDimensions.wallThickness.send(Math.max(MIN_WALL_THICKNESS, Math.min(value, MAX_WALL_THICKNESS)));
+
+  const load = document.createElement("button");
+  load.textContent = "Load";
+  load.addEventListener("click", () => sendParams(preset.params));
+
+  item.append(thumbnail, name, load);
+
+  if (saved) {
+    const remove = document.createElement("button");
+    remove.textContent = "Delete";
+    remove.addEventListener("click", () => {
+      if (window.confirm(`Delete the preset "${preset.name}"?`)) {
+        presets.update((presets) => presets.filter((p) => p !== preset));
+      }
+    });
+    item.append(remove);
+  }
+
+  return item;
+}
+
+presets.addListener((presets) => {
+  presetsList.replaceChildren(
+    ...presets.map((preset) => presetItem(preset, true)),
+    ...STARTER_PRESETS.map((preset) => presetItem(preset, false)),
+  );
+});
+
+importPresetsButton.addEventListener("click", () => importPresetsInput.click());
+importPresetsInput.addEventListener("change", async () => {
+  const file = importPresetsInput.files?.[0];
+  importPresetsInput.value = ""; // allow importing the same file again
+  if (file === undefined) return;
+
+  try {
+    const imported = parseLibrary(await file.text());
+    presets.update((presets) =>
+      imported.reduce(
+        (library, preset) => [
+          ...library,
+          { ...preset, name: uniqueName(preset.name, library) },
+        ],
+        presets,
+      ),
+    );
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    window.alert(`Could not import presets from ${file.name}: ${reason}`);
+  }
+});
+
+exportPresetsButton.addEventListener("click", () => {
+  const blob = new Blob([serializeLibrary(presets.latest)], {
+    type: "application/json",
   });
+  downloadBlob(blob, "vase-presets.json");
 });
 
-// closed bottom
-inputs.closedBottom.addEventListener("change", () => {
-  modelDimensions.closedBottom.send(inputs.closedBottom.checked);
+// Opens a 3MF file: the design is restored if the file was exported by the app
+// (missing parameters are set to their default), and the mesh is shown
+// otherwise
+async function open3mf(file: File) {
+  try {
+    const imported = await modelWorker.request("import", {
+      data: new Uint8Array(await file.arrayBuffer()),
+    });
+    if (imported === undefined) {
+      return; // superseded by another file
+    }
+
+    if (imported.kind === "design") {
+      importedMesh.send(undefined);
+      sendParams({ ...DEFAULT_PARAMS, ...imported.params });
+    } else {
+      importedMesh.send({ ...imported, name: file.name });
+    }
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    window.alert(`Could not open ${file.name}: ${reason}`);
+  }
+}
+
+importButton.addEventListener("click", () => importInput.click());
+importInput.addEventListener("change", () => {
+  const file = importInput.files?.[0];
+  importInput.value = ""; // allow opening the same file again
+  if (file !== undefined) {
+    open3mf(file);
+  }
+});
+
+window.addEventListener("dragover", (e) => {
+  if (e.dataTransfer?.types.includes("Files")) {
+    e.preventDefault();
+  }
+});
+window.addEventListener("drop", (e) => {
+  const file = e.dataTransfer?.files[0];
+  if (file !== undefined) {
+    e.preventDefault();
+    open3mf(file);
+  }
 });
 
 // Add select-all on input click for number inputs
-(["height", "outerRadius", "wallThickness"] as const).forEach((dim) => {
-  const input = inputs[dim];
+[
+  inputs.height,
+  inputs.outerRadius,
+  inputs.wallThickness,
+  ...profileControls.map(({ input }) => input),
+  sidesControl.input,
+  starRatioControl.input,
+  cornerRadiusControl.input,
+  twistControl.input,
+  scaleTopControl.input,
+  textureAmplitudeControl.input,
+  textureCountControl.input,
+  textureRowsControl.input,
+  texturePhaseControl.input,
+  bottomThicknessControl.input,
+  nozzleWidthControl.input,
+  drainageHolesControl.input,
+  drainageHoleDiameterControl.input,
+  drainageRingRadiusControl.input,
+  saucerClearanceControl.input,
+  saucerLipHeightControl.input,
+  linerClearanceControl.input,
+  lidInterferenceControl.input,
+  lidClearanceControl.input,
+  threadPitchControl.input,
+  threadTurnsControl.input,
+  threadToleranceControl.input,
+  frogHolesControl.input,
+  frogHoleDiameterControl.input,
+  frogThicknessControl.input,
+  chordErrorControl.input,
+  textSizeControl.input,
+  textDepthControl.input,
+  textPositionControl.input,
+  textAngleControl.input,
+  overhangAngleControl.input,
+  minWallLinesControl.input,
+  costPerKgControl.input,
+  cutPositionControl.input,
+  imageWidthControl.input,
+].forEach((input) => {
   input.addEventListener("focus", () => {
     input.select();
   });
@@ -321,6 +2667,11 @@ const eventCoords = (e: MouseEvent | TouchEvent): [number, number] => {
 const readyMouseTarget = canvas;
 const readyMouseEvents = ["mousedown", "touchstart"] as const;
 const readyMouse = (e: MouseEvent | TouchEvent) => {
+  // In orbit mode the camera moves instead (see below)
+  if (orbit.latest) {
+    return;
+  }
+
   renderer.render();
 
   const [x, y] = eventCoords(e);
@@ -361,6 +2712,125 @@ readyMouseEvents.forEach((evt) =>
   readyMouseTarget.addEventListener(evt, readyMouse),
 );
 
+/* Orbit mode: dragging turns the camera around the model, or pans it (with
+ * the shift key, the right button or two fingers). Scrolling or pinching
+ * zooms in & out. */
+
+// How much the camera turns, in radians per (CSS) pixel dragged
+const ORBIT_SPEED = 0.01;
+
+// How much scrolling zooms, per pixel scrolled (exponentially)
+const WHEEL_ZOOM_SPEED = 0.002;
+
+// How far the model can be panned, as a ratio of the view
+const MAX_PAN = 1;
+
+const clamp = (v: number, [lo, hi]: [number, number]): number =>
+  Math.max(lo, Math.min(v, hi));
+
+const orbitBy = (dx: number, dy: number) =>
+  moveView(
+    {
+      ...targetView,
+      azimuth: targetView.azimuth - dx * ORBIT_SPEED,
+      elevation: clamp(targetView.elevation + dy * ORBIT_SPEED, [
+        -MAX_ELEVATION,
+        MAX_ELEVATION,
+      ]),
+    },
+    { animate: false },
+  );
+
+const panBy = (dx: number, dy: number) =>
+  moveView(
+    {
+      ...targetView,
+      pan: [
+        clamp(targetView.pan[0] + dx / canvas.clientWidth, [-MAX_PAN, MAX_PAN]),
+        clamp(targetView.pan[1] - dy / canvas.clientHeight, [
+          -MAX_PAN,
+          MAX_PAN,
+        ]),
+      ],
+    },
+    { animate: false },
+  );
+
+const zoomBy = (ratio: number) =>
+  moveView(
+    {
+      ...targetView,
+      zoom: clamp(targetView.zoom * ratio, [MIN_ZOOM, MAX_ZOOM]),
+    },
+    { animate: false },
+  );
+
+// The pointers down on the canvas (in orbit mode), at their last position
+const orbitPointers = new Map<number, [number, number]>();
+
+canvas.addEventListener("pointerdown", (e) => {
+  if (!orbit.latest) {
+    return;
+  }
+
+  e.preventDefault();
+  canvas.setPointerCapture(e.pointerId);
+  orbitPointers.set(e.pointerId, [e.offsetX, e.offsetY]);
+});
+
+canvas.addEventListener("pointermove", (e) => {
+  const last = orbitPointers.get(e.pointerId);
+  if (last === undefined) {
+    return;
+  }
+
+  const [x, y] = [e.offsetX, e.offsetY];
+  const [dx, dy] = [x - last[0], y - last[1]];
+  orbitPointers.set(e.pointerId, [x, y]);
+
+  const other = Array.from(orbitPointers).find(([id]) => id !== e.pointerId);
+  if (other !== undefined) {
+    // Two fingers: pinch to zoom (relative to the other finger) & pan
+    const [, [ox, oy]] = other;
+    const before = Math.hypot(last[0] - ox, last[1] - oy);
+    const after = Math.hypot(x - ox, y - oy);
+    if (before > 0) {
+      zoomBy(after / before);
+    }
+    panBy(dx / 2, dy / 2);
+  } else if (e.shiftKey || (e.buttons & 2) !== 0) {
+    panBy(dx, dy);
+  } else {
+    orbitBy(dx, dy);
+  }
+});
+
+(["pointerup", "pointercancel"] as const).forEach((evt) =>
+  canvas.addEventListener(evt, (e) => {
+    orbitPointers.delete(e.pointerId);
+  }),
+);
+
+// The right button pans, rather than opening the context menu
+canvas.addEventListener("contextmenu", (e) => {
+  if (orbit.latest) {
+    e.preventDefault();
+  }
+});
+
+canvas.addEventListener(
+  "wheel",
+  (e) => {
+    if (!orbit.latest) {
+      return;
+    }
+
+    e.preventDefault(); // Prevent from scrolling the page while zooming
+    zoomBy(Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED));
+  },
+  { passive: false },
+);
+
 /* Start tracking mouse mouvement across the window */
 const trackMouseTarget = window;
 const trackMouseEvents = ["mousemove", "touchmove"] as const;
@@ -438,19 +2908,19 @@ const forgetMouse = () => {
 
 /// LOOP
 
-// Set to current frame's timestamp when a model starts loading, and set
-// to undefined when the model has finished loading
-let modelLoadStarted: undefined | DOMHighResTimeStamp;
-
-function loop(nowMillis: DOMHighResTimeStamp) {
+function loop() {
   requestAnimationFrame(loop);
 
   // Reload 3mf if necessary
-  const newTmf = tmfLoader.take();
-  if (newTmf !== undefined) {
-    // Update the download link
-    link.href = URL.createObjectURL(newTmf.blob);
-    link.download = newTmf.filename;
+  // Reload exported model if necessary (new model or new format)
+  const newModel = modelLoader.take(exportFormat.latest);
+  if (newModel !== undefined) {
+    // Update the download link (releasing the previous model's blob)
+    if (link.href.startsWith("blob:")) {
+      URL.revokeObjectURL(link.href);
+    }
+    link.href = URL.createObjectURL(newModel.blob);
+    link.download = newModel.filename;
   }
 
   // Handle rotation animation
@@ -459,35 +2929,44 @@ function loop(nowMillis: DOMHighResTimeStamp) {
     mesh.rotation.z = rotation.current * Math.PI + MESH_ROTATION_DELTA;
   }
 
-  // Handle dimensions animation (only for numeric dimensions)
-  const dimensionsUpdated = (["height", "outerRadius", "wallThickness"] as const).reduce(
-    (acc, dim) => animations[dim].update() || acc,
+  // Handle camera view animation (standard views & orbit)
+  const viewUpdated = Object.values(viewAnimations).reduce(
+    (acc, animation) => animation.update() || acc,
     false,
   );
+  if (viewUpdated) {
+    renderer.setView({
+      azimuth: viewAnimations.azimuth.current,
+      elevation: viewAnimations.elevation.current,
+      zoom: viewAnimations.zoom.current,
+      pan: [viewAnimations.panX.current, viewAnimations.panY.current],
+    });
+    centerCameraNeeded = true;
+    viewMoved = true;
+  } else if (viewMoved && orbitPointers.size === 0) {
+    // The cut faces the camera once the view comes to rest
+    viewMoved = false;
+    if (cutaway.latest) {
+      reloadModelNeeded = true;
+    }
+  }
 
-  if (dimensionsUpdated) {
+  // Handle dimensions animation (only for numeric dimensions)
+  const dimensionsUpdated = [
+    ...ANIMATED_DIMENSIONS.map((dim) => animations[dim]),
+    ...profileAnimations,
+  ].reduce((acc, animation) => animation.update() || acc, false);
+
+  if (dimensionsUpdated || animating) {
+    animating = dimensionsUpdated;
     reloadModelNeeded = true;
   }
 
-  // Whether we should start loading a new model on this frame
-  // True if (1) model needs reloading and (2) no model is currently loading (or
-  // if loading seems stuck)
-  const reloadModelNow =
-    reloadModelNeeded &&
-    (modelLoadStarted === undefined || nowMillis - modelLoadStarted > 100);
-
-  if (reloadModelNow) {
-    modelLoadStarted = nowMillis;
+  // Request a new model if necessary. Models are generated by the worker, which
+  // skips outdated requests if new ones come in before they were started.
+  if (reloadModelNeeded) {
     reloadModelNeeded = false;
-    reloadModel(
-      animations["height"].current,
-      animations["outerRadius"].current,
-      animations["wallThickness"].current,
-      modelDimensions.closedBottom.latest,
-    ).then(() => {
-      modelLoadStarted = undefined;
-      centerCameraNeeded = true;
-    });
+    reloadModel(animating ? draftParams(animatedParams()) : animatedParams());
   }
 
   const canvasResized = renderer.resizeCanvas();
@@ -499,13 +2978,11 @@ function loop(nowMillis: DOMHighResTimeStamp) {
   if (centerCameraNeeded) {
     centerCamera();
     centerCameraNeeded = false;
+    // The annotations follow the camera (and the model, e.g. mid-animation)
+    drawDimensions();
   }
 
   renderer.render();
 }
 
-// performance.now() is equivalent to the timestamp supplied by
-// requestAnimationFrame
-//
-// https://developer.mozilla.org/en-US/docs/Web/API/Window/requestAnimationFrame
-loop(performance.now());
+loop();
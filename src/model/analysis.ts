@@ -0,0 +1,284 @@
+import type { CrossSection, Manifold, SimplePolygon, Vec3 } from "manifold-3d";
+
+import {
+  frogHoleCount,
+  ManifoldModule,
+  MITER_LIMIT,
+  place,
+  placePoint,
+  type Part,
+  type Placement,
+  type VaseParams,
+} from "./manifold";
+import { meshPositions } from "./export";
+import { displayLength, formatLength, UNITS, type Unit } from "./units";
+
+// Printability analysis: inspects the generated parts for features that are
+// likely to fail when printed.
+
+// Settings of the analysis (these are not part of the model)
+export type AnalysisSettings = {
+  overhangAngle: number; // max angle from vertical printed without support, in degrees
+  minWallLines: number; // min number of extrusion lines (nozzle widths) in a wall
+  unit: Unit; // the unit of the lengths in the warnings
+};
+
+export type Warning = {
+  kind: "overhang" | "thin-wall" | "cavity" | "frog";
+  message: string;
+};
+
+export type Analysis = {
+  warnings: Warning[];
+  // The triangles of the problematic areas (x, y, z for each vertex), to be
+  // highlighted
+  highlight: Float32Array;
+};
+
+// Number of horizontal slices inspected per part, for walls & cavities
+const N_SLICES = 48;
+
+// Tolerance used to ignore faces lying on the print bed, in mm
+const BED_EPSILON = 1e-3;
+
+// The placement of parts shown as printed
+const NOT_PLACED: Placement = { translation: [0, 0, 0] };
+
+// Analyzes the parts, as they will be printed. The highlighted triangles of each
+// part are moved to the part's placement, if any (e.g. to match the parts as
+// shown assembled, see partPlacements).
+export async function analyze(
+  parts: Part[],
+  params: VaseParams,
+  settings: AnalysisSettings,
+  placements: Placement[] = [],
+): Promise<Analysis> {
+  const warnings: Warning[] = [];
+  const highlights: Float32Array[] = [];
+
+  const overhangs = findOverhangs(parts, settings.overhangAngle, placements);
+  if (overhangs.triangles.length > 0) {
+    const [lo, hi] = overhangs.zRange;
+    warnings.push({
+      kind: "overhang",
+      message: `Overhangs beyond ${settings.overhangAngle}° ${heightRange(lo, hi, settings.unit)} (support needed)`,
+    });
+    highlights.push(overhangs.triangles);
+  }
+
+  // In spiral vase mode the wall is a single perimeter by design
+  if (!params.spiralMode) {
+    const minWall = settings.minWallLines * params.nozzleWidth;
+    const wallLength = (mm: number) =>
+      formatLength(mm, settings.unit, UNITS[settings.unit].decimals);
+    const thin = await findThinWalls(parts, minWall, placements);
+    if (thin !== undefined) {
+      warnings.push({
+        kind: "thin-wall",
+        message: `Walls thinner than ${wallLength(minWall)} (${settings.minWallLines} × ${wallLength(params.nozzleWidth)} nozzle)`,
+      });
+      highlights.push(meshPositions(thin));
+    }
+  }
+
+  const vase = parts.find(({ name }) => name === "vase");
+  if (vase !== undefined) {
+    const cavity = await checkCavity(vase.manifold, params, settings.unit);
+    if (cavity !== undefined) {
+      warnings.push({ kind: "cavity", message: cavity });
+    }
+  }
+
+  // The flower frog holds as many holes as fit, possibly none
+  const holes = await frogHoleCount(params);
+  if (holes !== undefined && holes < params.frogHoles) {
+    warnings.push({
+      kind: "frog",
+      message:
+        holes === 0
+          ? "No hole fits in the flower frog, which is left out"
+          : `Only ${holes} of ${params.frogHoles} holes fit in the flower frog`,
+    });
+  }
+
+  return { warnings, highlight: concat(highlights) };
+}
+
+// The range of heights (in mm), in the unit, e.g. "between 12 and 40 mm"
+const heightRange = (lo: number, hi: number, unit: Unit): string => {
+  const decimals = UNITS[unit].decimals - 2;
+  return `between ${displayLength(lo, unit, decimals)} and ${formatLength(hi, unit, decimals)}`;
+};
+
+// Finds the faces facing down at more than 'angle' (in degrees) from vertical,
+// excluding the faces lying on the print bed
+function findOverhangs(
+  parts: Part[],
+  angle: number,
+  placements: Placement[],
+): { triangles: Float32Array; zRange: [number, number] } {
+  // A face tilted by more than 'angle' has a normal pointing down by more than
+  // sin(angle)
+  const threshold = Math.sin((angle * Math.PI) / 180);
+  const found: number[] = [];
+  let [lo, hi] = [Infinity, -Infinity];
+
+  parts.forEach(({ manifold }, part) => {
+    const { vertProperties: verts, triVerts, numProp } = manifold.getMesh();
+    const placement = placements[part] ?? NOT_PLACED;
+    const vertex = (ix: number): Vec3 => [
+      verts[ix * numProp + 0],
+      verts[ix * numProp + 1],
+      verts[ix * numProp + 2],
+    ];
+
+    for (let i = 0; i < triVerts.length; i += 3) {
+      const [a, b, c] = [0, 1, 2].map((j) => vertex(triVerts[i + j]));
+
+      const zMax = Math.max(a[2], b[2], c[2]);
+      if (zMax < BED_EPSILON) continue;
+
+      // Z component of the (unit) normal: (b - a) x (c - a)
+      const [ux, uy, uz] = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+      const [vx, vy, vz] = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+      const [nx, ny, nz] = [
+        uy * vz - uz * vy,
+        uz * vx - ux * vz,
+        ux * vy - uy * vx,
+      ];
+      const norm = Math.sqrt(nx * nx + ny * ny + nz * nz);
+      if (norm === 0 || -nz / norm <= threshold) continue;
+
+      [a, b, c].forEach((v) => found.push(...placePoint(v, placement)));
+      lo = Math.min(lo, a[2], b[2], c[2]);
+      hi = Math.max(hi, zMax);
+    }
+  });
+
+  return { triangles: new Float32Array(found), zRange: [lo, hi] };
+}
+
+// Finds the walls thinner than 'minWall' by slicing the parts: in each slice,
+// the walls that don't survive shrinking by half the min wall thickness (and
+// growing back) are too thin. Returns slabs of the thin walls (moved to the
+// parts' placements), if any.
+async function findThinWalls(
+  parts: Part[],
+  minWall: number,
+  placements: Placement[],
+): Promise<Manifold | undefined> {
+  const { Manifold } = await ManifoldModule.get();
+  const slabs: Manifold[] = [];
+
+  parts.forEach(({ manifold }, part) => {
+    const placement = placements[part] ?? NOT_PLACED;
+    forEachSlice(manifold, (slice, z, thickness) => {
+      const thick = slice
+        .offset(-minWall / 2, "Miter", MITER_LIMIT)
+        .offset(minWall / 2, "Miter", MITER_LIMIT);
+      const thin = slice.subtract(thick);
+
+      // Ignore numerical noise along the walls
+      if (thin.area() < minWall * minWall) return;
+
+      const slab = thin.extrude(thickness).translate([0, 0, z - thickness / 2]);
+      slabs.push(place(slab, placement));
+    });
+  });
+
+  return slabs.length === 0 ? undefined : Manifold.compose(slabs);
+}
+
+// Checks that the vase's cavity goes all the way from the bottom to the top,
+// and is wide enough to be printed. Returns a warning message if not.
+async function checkCavity(
+  vase: Manifold,
+  params: VaseParams,
+  unit: Unit,
+): Promise<string | undefined> {
+  const { CrossSection } = await ManifoldModule.get();
+  const { nozzleWidth, closedBottom, spiralMode } = params;
+
+  // The bottom of the cavity, as printed
+  const thickness = spiralMode ? params.bottomThickness : params.wallThickness;
+  const bottom = closedBottom ? thickness : 0;
+
+  // Heights where the cavity is missing (or too narrow to print)
+  const closed: number[] = [];
+  let nSlices = 0;
+
+  forEachSlice(vase, (slice, z) => {
+    if (z <= bottom) return;
+    nSlices++;
+
+    // The cavity shows up as holes in the slice, i.e. contours with
+    // negative (clockwise) orientation, which are reversed to get the
+    // cavity's cross-section
+    const holes = slice
+      .toPolygons()
+      .filter((contour) => signedArea(contour) < 0)
+      .map((contour) => new CrossSection([...contour].reverse()));
+
+    // NOTE: the area is checked first, as offsetting tiny polygons is not
+    // reliable
+    const minArea = Math.PI * (nozzleWidth / 2) ** 2;
+    const open = holes.some(
+      (hole) =>
+        hole.area() >= minArea &&
+        !hole.offset(-nozzleWidth / 2, "Miter", MITER_LIMIT).isEmpty(),
+    );
+    if (!open) {
+      closed.push(z);
+    }
+  });
+
+  if (closed.length === 0) {
+    return undefined;
+  }
+
+  if (closed.length === nSlices) {
+    return "No cavity: the wall is as thick as the vase is wide";
+  }
+
+  const [lo, hi] = [Math.min(...closed), Math.max(...closed)];
+  return `The cavity is closed or too narrow ${heightRange(lo, hi, unit)}`;
+}
+
+// Calls 'f' with evenly spaced horizontal slices of the manifold, along with
+// the slice's height and the distance between slices
+function forEachSlice(
+  manifold: Manifold,
+  f: (slice: CrossSection, z: number, thickness: number) => void,
+) {
+  const { min, max } = manifold.boundingBox();
+  const thickness = (max[2] - min[2]) / N_SLICES;
+
+  for (let i = 0; i < N_SLICES; i++) {
+    // Slice in the middle of each layer, away from horizontal faces
+    const z = min[2] + (i + 0.5) * thickness;
+    f(manifold.slice(z), z, thickness);
+  }
+}
+
+// The signed area of a polygon (positive if counter-clockwise)
+function signedArea(contour: SimplePolygon): number {
+  let area = 0;
+  for (let i = 0; i < contour.length; i++) {
+    const [x0, y0] = contour[i];
+    const [x1, y1] = contour[(i + 1) % contour.length];
+    area += x0 * y1 - x1 * y0;
+  }
+  return area / 2;
+}
+
+function concat(arrays: Float32Array[]): Float32Array {
+  const result = new Float32Array(
+    arrays.reduce((acc, array) => acc + array.length, 0),
+  );
+  let offset = 0;
+  arrays.forEach((array) => {
+    result.set(array, offset);
+    offset += array.length;
+  });
+  return result;
+}
@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+
+import { modelTitle } from "./description";
+import { DEFAULT_PARAMS } from "./params";
+
+describe("modelTitle", () => {
+  it("doesn't call tapered cylinders cylinders", () => {
+    expect(modelTitle(DEFAULT_PARAMS)).toMatch(/^Cylinder, /);
+    expect(modelTitle({ ...DEFAULT_PARAMS, scaleTop: 0.6 })).toMatch(/^Vase, /);
+  });
+});
@@ -0,0 +1,82 @@
+import type { VaseParams } from "./manifold";
+import { profileShape } from "./profile";
+import { displayLength, formatLength, type Unit } from "./units";
+
+// Human-readable descriptions of the model, e.g. for the metadata of exported
+// files (see also ./filename.ts). Lengths are given in the unit, mm by default.
+
+// The title of the model, e.g. "Bulb vase, 80 × 120 mm" (plain cylinders are
+// simply called "Cylinder")
+export function modelTitle(params: VaseParams, unit: Unit = "mm"): string {
+  const shape = profileShape(params.profile);
+  const plain =
+    shape === "straight" &&
+    params.section === "circle" &&
+    params.scaleTop === 1 &&
+    params.twist === 0 &&
+    params.texture === "none";
+  const name = plain
+    ? "Cylinder"
+    : shape === "straight" || shape === "custom"
+      ? "Vase"
+      : `${shape[0].toUpperCase()}${shape.slice(1)} vase`;
+
+  const size = `${displayLength(2 * params.outerRadius, unit)} × ${formatLength(params.height, unit)}`;
+  return `${name}, ${size}`;
+}
+
+// The description of the model: its shape and its features, e.g. "80 mm wide,
+// 120 mm tall, 6-sided section twisted 90°, ribs texture, 2 mm wall, closed
+// bottom, 4 drainage holes, with a liner and a saucer."
+export function modelDescription(
+  params: VaseParams,
+  unit: Unit = "mm",
+): string {
+  const length = (mm: number) => formatLength(mm, unit);
+  const shape = profileShape(params.profile);
+  const section = {
+    circle: "round section",
+    polygon: `${params.sides}-sided section`,
+    star: `${params.sides}-pointed star section`,
+    "rounded-polygon": `rounded ${params.sides}-sided section`,
+  }[params.section];
+  const twist = params.twist === 0 ? "" : ` twisted ${params.twist}°`;
+  const drainageHoles =
+    params.closedBottom && !params.spiralMode ? params.drainageHoles : 0;
+  const text = params.text.trim();
+
+  const features = [
+    `${length(2 * params.outerRadius)} wide`,
+    `${length(params.height)} tall`,
+    shape === "straight" ? undefined : `${shape} profile`,
+    section + twist,
+    params.scaleTop === 1
+      ? undefined
+      : `top scaled to ${Math.round(params.scaleTop * 100)}%`,
+    params.texture === "none" ? undefined : `${params.texture} texture`,
+    params.spiralMode
+      ? `for spiral vase mode (${length(params.nozzleWidth)} nozzle)`
+      : `${length(params.wallThickness)} wall`,
+    params.closedBottom ? "closed bottom" : "open bottom",
+    drainageHoles > 0 ? `${drainageHoles} drainage holes` : undefined,
+    text === "" ? undefined : `${params.textMode}ed text "${text}"`,
+  ];
+
+  const parts = [
+    params.liner ? "a liner" : undefined,
+    params.lid === "none" ? undefined : `a ${params.lid} lid`,
+    params.frog === "none" || params.lid !== "none"
+      ? undefined
+      : `a ${params.frog} flower frog`,
+    params.saucer ? "a saucer" : undefined,
+  ].filter((part) => part !== undefined);
+
+  const withParts =
+    parts.length === 0
+      ? undefined
+      : `with ${parts.slice(0, -1).join(", ")}${parts.length > 1 ? " and " : ""}${parts[parts.length - 1]}`;
+
+  return (
+    [...features, withParts].filter((f) => f !== undefined).join(", ") + "."
+  );
+}
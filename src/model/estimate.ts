@@ -0,0 +1,68 @@
+import type { Part, VaseParams } from "./manifold";
+import { vaseCavity } from "./manifold";
+
+// Estimates of the material used to print the model, and of the vase's capacity
+
+// Common filament materials, with their density in g/cm³
+export const MATERIALS = {
+  pla: { label: "PLA", density: 1.24 },
+  petg: { label: "PETG", density: 1.27 },
+  tpu: { label: "TPU", density: 1.21 },
+  abs: { label: "ABS", density: 1.04 },
+  asa: { label: "ASA", density: 1.07 },
+} as const satisfies Record<string, { label: string; density: number }>;
+
+export type Material = keyof typeof MATERIALS;
+
+// Diameter of the filament, in mm
+const FILAMENT_DIAMETER = 1.75;
+
+// Volumes of the model, in mm³
+export type Volumes = {
+  material: number; // volume of the parts, as printed
+  capacity?: number; // volume of the vase's cavity, unless it can't hold water
+};
+
+export type Estimate = {
+  capacity?: number; // in mL, unless the vase can't hold water
+  volume: number; // in cm³
+  filamentLength: number; // in m
+  weight: number; // in g
+  cost: number; // in the currency of the cost per kg
+};
+
+// Computes the volumes of the parts (as printed) and the vase's capacity, i.e.
+// the volume of its cavity (see vaseCavity)
+export async function modelVolumes(
+  parts: Part[],
+  params: VaseParams,
+): Promise<Volumes> {
+  const material = parts.reduce(
+    (acc, { manifold }) => acc + manifold.volume(),
+    0,
+  );
+
+  const cavity = await vaseCavity(params);
+
+  return { material, capacity: cavity?.volume() };
+}
+
+// Converts the volumes into quantities of filament (assuming the parts are
+// printed fully solid, which is the case for thin walls)
+export function estimate(
+  volumes: Volumes,
+  material: Material,
+  costPerKg: number,
+): Estimate {
+  const filamentSection = Math.PI * (FILAMENT_DIAMETER / 2) ** 2;
+  const weight = (volumes.material / 1000) * MATERIALS[material].density;
+
+  return {
+    capacity:
+      volumes.capacity === undefined ? undefined : volumes.capacity / 1000,
+    volume: volumes.material / 1000,
+    filamentLength: volumes.material / filamentSection / 1000,
+    weight,
+    cost: (weight / 1000) * costPerKg,
+  };
+}
@@ -4,6 +4,10 @@ import {
   to3dmodel,
 } from "@jscadui/3mf-export";
 import type { Manifold } from "manifold-3d";
+import type { Part, VaseParams } from "./manifold";
+import { serializeParams } from "./params";
+import { modelTitle, modelDescription } from "./description";
+import { UNITS, type Unit } from "./units";
 
 import * as THREE from "three";
 import { strToU8, Zippable, zipSync } from "fflate";
@@ -11,7 +15,7 @@ import { strToU8, Zippable, zipSync } from "fflate";
 interface To3MF {
   meshes: Array<Mesh3MF>;
   components: [];
-  items: [{ objectID: string }];
+  items: Array<{ objectID: string }>;
   precision: number;
   header: Header;
 }
@@ -29,12 +33,72 @@ interface Header {
   author?: string;
   description?: string;
   application?: string;
-  creationDate?: string;
+  creationDate?: Date;
   license?: string;
-  modificationDate?: string;
+  modificationDate?: Date;
 }
 
-export function exportManifold(manifold: Manifold): Blob {
+// What is known about the exported model, stored in the file when the format
+// supports it (3MF)
+export type ModelInfo = {
+  params: VaseParams;
+  thumbnail?: Uint8Array; // PNG
+  unit?: Unit; // the unit of the file's coordinates, mm by default
+};
+
+// The namespace of the app's own 3MF metadata: the model parameters, one entry
+// per parameter (serialized like permalinks), e.g. "skapa:height"
+export const METADATA_PREFIX = "skapa";
+export const METADATA_NAMESPACE = "https://skapa.build/3mf/params";
+
+// Where the thumbnail goes in 3MF files
+const THUMBNAIL_PATH = "Metadata/thumbnail.png";
+
+// The supported export formats
+export type ExportFormat = "3mf" | "stl" | "stl-ascii" | "obj";
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  "3mf": {
+    label: "3MF",
+    extension: "3mf",
+    mimeType: "application/vnd.ms-package.3dmanufacturing-3dmodel+xml",
+  },
+  stl: { label: "STL", extension: "stl", mimeType: "model/stl" },
+  "stl-ascii": {
+    label: "STL (ASCII)",
+    extension: "stl",
+    mimeType: "model/stl",
+  },
+  obj: { label: "OBJ", extension: "obj", mimeType: "model/obj" },
+};
+
+// Export the parts in the given format. STL has no notion of objects, so all
+// parts end up in the same mesh.
+export function exportModel(
+  parts: Part[],
+  format: ExportFormat,
+  info: ModelInfo,
+): Blob {
+  switch (format) {
+    case "3mf":
+      return exportManifold(parts, info);
+    case "stl":
+      return exportStl(parts);
+    case "stl-ascii":
+      return exportStlAscii(parts);
+    case "obj":
+      return exportObj(parts);
+  }
+}
+
+// Returns the mesh's vertex positions (x, y, z) and triangles (vertex indices)
+function meshArrays(manifold: Manifold): {
+  vertices: Float32Array;
+  indices: Uint32Array;
+} {
   const manifoldMesh = manifold.getMesh();
 
   const vertices =
@@ -50,49 +114,205 @@ export function exportManifold(manifold: Manifold): Blob {
     }
   }
 
+  return { vertices, indices: manifoldMesh.triVerts };
+}
+
+// Iterates over the triangles of all parts, calling 'f' with the (unit) normal
+// & the vertices of each triangle
+function forEachTriangle(
+  parts: Part[],
+  f: (
+    normal: THREE.Vector3,
+    a: THREE.Vector3,
+    b: THREE.Vector3,
+    c: THREE.Vector3,
+  ) => void,
+) {
+  const [a, b, c] = [
+    new THREE.Vector3(),
+    new THREE.Vector3(),
+    new THREE.Vector3(),
+  ];
+  const triangle = new THREE.Triangle(a, b, c);
+  const normal = new THREE.Vector3();
+
+  parts.forEach(({ manifold }) => {
+    const { vertices, indices } = meshArrays(manifold);
+    for (let i = 0; i < indices.length; i += 3) {
+      a.fromArray(vertices, 3 * indices[i + 0]);
+      b.fromArray(vertices, 3 * indices[i + 1]);
+      c.fromArray(vertices, 3 * indices[i + 2]);
+      triangle.getNormal(normal);
+      f(normal, a, b, c);
+    }
+  });
+}
+
+// Binary STL: 80 bytes header, number of triangles, and then for each triangle
+// the normal, the 3 vertices and 2 (unused) bytes of attributes
+export function exportStl(parts: Part[]): Blob {
+  const nTriangles = parts.reduce(
+    (acc, { manifold }) => acc + manifold.numTri(),
+    0,
+  );
+  const TRIANGLE_SIZE = 4 * 3 * 4 + 2;
+
+  const buffer = new ArrayBuffer(80 + 4 + nTriangles * TRIANGLE_SIZE);
+  const view = new DataView(buffer);
+  view.setUint32(80, nTriangles, true);
+
+  let offset = 84;
+  forEachTriangle(parts, (...vectors) => {
+    vectors.forEach((v) => {
+      view.setFloat32(offset + 0, v.x, true);
+      view.setFloat32(offset + 4, v.y, true);
+      view.setFloat32(offset + 8, v.z, true);
+      offset += 12;
+    });
+    offset += 2;
+  });
+
+  return new Blob([buffer], { type: EXPORT_FORMATS["stl"].mimeType });
+}
+
+export function exportStlAscii(parts: Part[]): Blob {
+  const lines: string[] = ["solid vase"];
+  const fmt = (v: THREE.Vector3) => `${v.x} ${v.y} ${v.z}`;
+
+  forEachTriangle(parts, (normal, a, b, c) => {
+    lines.push(
+      `facet normal ${fmt(normal)}`,
+      "  outer loop",
+      `    vertex ${fmt(a)}`,
+      `    vertex ${fmt(b)}`,
+      `    vertex ${fmt(c)}`,
+      "  endloop",
+      "endfacet",
+    );
+  });
+  lines.push("endsolid vase");
+
+  return new Blob([lines.join("\n") + "\n"], {
+    type: EXPORT_FORMATS["stl-ascii"].mimeType,
+  });
+}
+
+// Wavefront OBJ, with one object ("o") per part, each with its vertices ("v")
+// and faces ("f"). Vertex indices are 1-indexed and global to the file.
+export function exportObj(parts: Part[]): Blob {
+  const lines: string[] = [];
+  let offset = 1;
+
+  parts.forEach(({ name, manifold }) => {
+    const { vertices, indices } = meshArrays(manifold);
+    lines.push(`o ${name}`);
+
+    for (let i = 0; i < vertices.length; i += 3) {
+      lines.push(`v ${vertices[i]} ${vertices[i + 1]} ${vertices[i + 2]}`);
+    }
+
+    for (let i = 0; i < indices.length; i += 3) {
+      const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]];
+      lines.push(`f ${a + offset} ${b + offset} ${c + offset}`);
+    }
+
+    offset += vertices.length / 3;
+  });
+
+  return new Blob([lines.join("\n") + "\n"], {
+    type: EXPORT_FORMATS["obj"].mimeType,
+  });
+}
+
+// 3MF, with one object per part, the thumbnail (if any) and the parameters.
+// The coordinates are written in the unit (declared in the file's header).
+export function exportManifold(
+  parts: Part[],
+  { params, thumbnail, unit = "mm" }: ModelInfo,
+): Blob {
+  const { size } = UNITS[unit];
+  const meshes: Mesh3MF[] = parts.map(({ name, manifold }, i) => {
+    const { vertices, indices } = meshArrays(manifold);
+    return {
+      vertices: size === 1 ? vertices : vertices.map((c) => c / size),
+      indices,
+      id: `${i}`,
+      name,
+    };
+  });
+
   const to3mf: To3MF = {
-    meshes: [{ vertices, indices: manifoldMesh.triVerts, id: "0" }],
+    meshes,
     components: [],
-    items: [{ objectID: "0" }],
+    items: meshes.map(({ id }) => ({ objectID: id })),
     precision: 7,
 
     header: {
-      unit: "millimeter",
-      title: "skapa-ikea-skadis",
-      description: "",
-      application: "",
+      unit: UNITS[unit].name,
+      title: escapeXml(modelTitle(params, unit)),
+      description: escapeXml(modelDescription(params, unit)),
+      application: "skapa",
+      creationDate: new Date(),
     },
   };
 
-  const model = to3dmodel(to3mf);
+  // NOTE: the header can't hold custom metadata, so the parameters (and their
+  // namespace) are added to the generated XML
+  const paramsMetadata = Object.entries(serializeParams(params)).map(
+    ([key, value]) =>
+      `  <metadata name="${METADATA_PREFIX}:${key}" preserve="1">${escapeXml(value)}</metadata>\n`,
+  );
+  const model = to3dmodel(to3mf)
+    .replace(
+      "<model ",
+      `<model xmlns:${METADATA_PREFIX}="${METADATA_NAMESPACE}" `,
+    )
+    .replace(/\s*<resources>/, `\n${paramsMetadata.join("")}  <resources>`);
 
   const files: Zippable = {};
 
   const fileForRelThumbnail = new FileForRelThumbnail();
   fileForRelThumbnail.add3dModel("3D/3dmodel.model");
+  if (thumbnail !== undefined) {
+    fileForRelThumbnail.addThumbnail(THUMBNAIL_PATH);
+    files[THUMBNAIL_PATH] = thumbnail;
+  }
   files["3D/3dmodel.model"] = strToU8(model);
   files[fileForContentTypes.name] = strToU8(fileForContentTypes.content);
   files[fileForRelThumbnail.name] = strToU8(fileForRelThumbnail.content);
   const zipFile = zipSync(files);
 
   return new Blob([zipFile], {
-    type: "application/vnd.ms-package.3dmanufacturing-3dmodel+xml",
+    type: EXPORT_FORMATS["3mf"].mimeType,
   });
 }
 
-export function mesh2geometry(manifold: Manifold): THREE.BufferGeometry {
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// The positions of the triangles' vertices (x, y, z for each vertex of each
+// triangle), e.g. to be sent to the page by the worker
+export function meshPositions(manifold: Manifold): Float32Array {
   const mesh = manifold.getMesh();
-  const geometry = new THREE.BufferGeometry();
   const verts: Float32Array = new Float32Array(3 * mesh.triVerts.length);
 
   // List the indices, and for each copy the original vertex.
   // This allows use to use computeVertexNormals in three.js.
   mesh.triVerts.forEach((ix, i) => {
-    verts[3 * i + 0] = mesh.vertProperties[3 * ix + 0];
-    verts[3 * i + 1] = mesh.vertProperties[3 * ix + 1];
-    verts[3 * i + 2] = mesh.vertProperties[3 * ix + 2];
+    verts[3 * i + 0] = mesh.vertProperties[mesh.numProp * ix + 0];
+    verts[3 * i + 1] = mesh.vertProperties[mesh.numProp * ix + 1];
+    verts[3 * i + 2] = mesh.vertProperties[mesh.numProp * ix + 2];
   });
 
-  geometry.setAttribute("position", new THREE.BufferAttribute(verts, 3));
+  return verts;
+}
+
+export function mesh2geometry(positions: Float32Array): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
   return geometry;
 }
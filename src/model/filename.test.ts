@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+
+import { modelBasename } from "./filename";
+import { DEFAULT_PARAMS } from "./params";
+
+const CYLINDER = DEFAULT_PARAMS; // a plain cylinder
+
+describe("modelBasename", () => {
+  it("names plain cylinders after their size", () => {
+    expect(modelBasename(CYLINDER)).toMatch(/^cylinder-\d+x\d+mm-/);
+  });
+
+  it("names tapered cylinders after their top's scale", () => {
+    expect(modelBasename({ ...CYLINDER, scaleTop: 0.6 })).toMatch(
+      /^taper60-vase-/,
+    );
+  });
+});
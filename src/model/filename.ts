@@ -0,0 +1,92 @@
+import type { VaseParams } from "./manifold";
+import { profileShape } from "./profile";
+import { displayLength, type Unit } from "./units";
+
+// The filename (without extension) for the model, e.g. "bulb-6gon-twist90-ribs24-vase-50x100mm-wall3-closed"
+// (plain cylinders are simply called "cylinder"). A scaled top is given as a
+// percentage, e.g. "taper60-vase-50x100mm-wall3-closed". The lengths are in the unit
+// (mm by default), e.g. "cylinder-1.97x3.94in-wall0.12-closed". In spiral vase
+// mode, the wall is replaced by the mode and the bottom thickness to use when
+// slicing, e.g. "cylinder-50x100mm-spiral-bottom1.2". Drainage holes, the
+// liner, the lid, the flower frog, the saucer and the text are added at the
+// end, e.g. "cylinder-50x100mm-wall3-closed-4holes-liner-threaded-lid-saucer-anna"
+// or "cylinder-50x100mm-wall3-closed-grid-frog".
+export function modelBasename(params: VaseParams, unit: Unit = "mm"): string {
+  return [
+    vaseBasename(params, unit),
+    drainageHoles(params) > 0 ? `${drainageHoles(params)}holes` : undefined,
+    params.liner ? "liner" : undefined,
+    params.lid === "none" ? undefined : `${params.lid}-lid`,
+    params.frog === "none" || params.lid !== "none"
+      ? undefined
+      : `${params.frog}-frog`,
+    params.saucer ? "saucer" : undefined,
+    textSlug(params.text),
+  ]
+    .filter((part) => part !== undefined)
+    .join("-");
+}
+
+// The number of drainage holes actually cut in the vase
+const drainageHoles = (params: VaseParams): number =>
+  params.closedBottom && !params.spiralMode ? params.drainageHoles : 0;
+
+// The text, reduced to lowercase letters & digits separated by dashes (undefined
+// if nothing is left), e.g. "Anna & Tom" becomes "anna-tom"
+function textSlug(text: string): string | undefined {
+  const slug = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "") // accents
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return slug === "" ? undefined : slug;
+}
+
+// The length (in mm) in the unit, e.g. "3" (mm) or "0.12" (in). Lengths in mm
+// are rounded to 'mmDecimals' (and keep their trailing zeros).
+const length = (mm: number, unit: Unit, mmDecimals: number): string =>
+  unit === "mm" ? mm.toFixed(mmDecimals) : `${displayLength(mm, unit, 2)}`;
+
+function vaseBasename(params: VaseParams, unit: Unit): string {
+  const shape = profileShape(params.profile);
+  const section = {
+    circle: undefined,
+    polygon: `${params.sides}gon`,
+    star: `${params.sides}star`,
+    "rounded-polygon": `rounded-${params.sides}gon`,
+  }[params.section];
+  const taper =
+    params.scaleTop === 1
+      ? undefined
+      : `taper${Math.round(params.scaleTop * 100)}`;
+  const twist =
+    params.twist === 0 ? undefined : `twist${params.twist.toFixed(0)}`;
+  const texture =
+    params.texture === "none"
+      ? undefined
+      : `${params.texture}${params.textureCount}`;
+
+  const features = [
+    shape === "straight" ? undefined : shape,
+    section,
+    taper,
+    twist,
+    texture,
+  ].filter((feature) => feature !== undefined);
+  const name =
+    features.length === 0 ? "cylinder" : [...features, "vase"].join("-");
+
+  const { height: h, outerRadius: r, wallThickness: w } = params;
+  const size = `${length(r * 2, unit, 0)}x${length(h, unit, 0)}${unit}`;
+
+  if (params.spiralMode) {
+    const bottom = params.closedBottom
+      ? `bottom${length(params.bottomThickness, unit, 1)}`
+      : "open";
+    return `${name}-${size}-spiral-${bottom}`;
+  }
+
+  const bottomType = params.closedBottom ? "closed" : "open";
+  return `${name}-${size}-wall${length(w, unit, 0)}-${bottomType}`;
+}
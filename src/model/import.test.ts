@@ -0,0 +1,121 @@
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+
+import { exportManifold } from "./export";
+import { read3mf } from "./import";
+import { ManifoldModule } from "./manifold";
+import { DEFAULT_PARAMS } from "./params";
+
+// A 3MF file (zip archive) with the given model, as written by other apps
+const tmf = (model: string, path = "3D/3dmodel.model"): Uint8Array =>
+  zipSync({
+    "_rels/.rels": strToU8(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Target="/${path}" Id="rel0" Type="http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel"/>
+</Relationships>`,
+    ),
+    [path]: strToU8(model),
+  });
+
+// A triangle, as a 3MF object
+const TRIANGLE = `
+    <object id="1" type="model">
+      <mesh>
+        <vertices>
+          <vertex x="0" y="0" z="0"/>
+          <vertex x="10" y="0" z="0"/>
+          <vertex x="0" y="20" z="5"/>
+        </vertices>
+        <triangles>
+          <triangle v1="0" v2="1" v3="2"/>
+        </triangles>
+      </mesh>
+    </object>`;
+
+const model = (content: string, unit = "millimeter"): string =>
+  `<?xml version="1.0" encoding="UTF-8"?>
+<model unit="${unit}" xmlns="http://schemas.microsoft.com/3dmanufacturing/core/2015/02">
+  <resources>${content}
+  </resources>
+  <build>
+    <item objectid="1"/>
+  </build>
+</model>`;
+
+describe("read3mf", () => {
+  it("restores the design of files exported by the app", async () => {
+    const { Manifold } = await ManifoldModule.get();
+    const params = {
+      ...DEFAULT_PARAMS,
+      height: 80,
+      section: "star" as const,
+      profile: [1, 0.8, 0.6, 0.8, 1],
+      text: 'Say "hi" <3',
+    };
+    const blob = exportManifold(
+      [
+        {
+          name: "vase",
+          manifold: Manifold.cube([10, 10, 80]),
+          assembled: { translation: [0, 0, 0] },
+        },
+      ],
+      { params, unit: "in" },
+    );
+
+    expect(read3mf(new Uint8Array(await blob.arrayBuffer()))).toEqual({
+      kind: "design",
+      params,
+    });
+  });
+
+  it("reads the triangles of foreign files, centered & standing on z = 0", () => {
+    const imported = read3mf(tmf(model(TRIANGLE)));
+    expect(imported.kind).toBe("mesh");
+    if (imported.kind !== "mesh") return;
+
+    expect(Array.from(imported.positions)).toEqual([
+      -5, -10, 0, 5, -10, 0, -5, 10, 5,
+    ]);
+    expect(imported.size).toEqual([10, 20, 5]);
+  });
+
+  it("scales the triangles to mm", () => {
+    const imported = read3mf(tmf(model(TRIANGLE, "inch")));
+    expect(imported.kind === "mesh" && imported.size).toEqual([254, 508, 127]);
+  });
+
+  it("applies the transforms of items & components", () => {
+    const imported = read3mf(
+      tmf(
+        model(`${TRIANGLE}
+    <object id="2" type="model">
+      <components>
+        <component objectid="1" transform="2 0 0 0 2 0 0 0 2 0 0 0"/>
+        <component objectid="1" transform="1 0 0 0 1 0 0 0 1 100 0 0"/>
+      </components>
+    </object>`).replace(
+          '<item objectid="1"/>',
+          '<item objectid="2" transform="1 0 0 0 1 0 0 0 1 0 0 7"/>',
+        ),
+      ),
+    );
+
+    expect(imported.kind === "mesh" && imported.positions.length).toBe(18);
+    expect(imported.kind === "mesh" && imported.size).toEqual([110, 40, 10]);
+  });
+
+  it("finds the model through the package's relationships", () => {
+    const imported = read3mf(tmf(model(TRIANGLE), "3D/other.model"));
+    expect(imported.kind).toBe("mesh");
+  });
+
+  it("rejects files that aren't 3MF files", () => {
+    expect(() => read3mf(strToU8("solid stl"))).toThrow("Not a 3MF file");
+    expect(() => read3mf(zipSync({ "hello.txt": strToU8("hi") }))).toThrow(
+      "no model found",
+    );
+    expect(() => read3mf(tmf(model("")))).toThrow("no triangles");
+  });
+});
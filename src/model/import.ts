@@ -0,0 +1,257 @@
+import { strFromU8, unzipSync } from "fflate";
+
+import type { Vec3 } from "manifold-3d";
+
+import type { VaseParams } from "./manifold";
+import { validateParams } from "./params";
+import { METADATA_NAMESPACE } from "./export";
+import { UNITS } from "./units";
+
+// Reads 3MF files: either files exported by the app, from which the design
+// (the parameters, see exportManifold) is restored, or foreign files, of which
+// only the triangles can be shown.
+
+export type Imported =
+  | { kind: "design"; params: Partial<VaseParams> }
+  | {
+      kind: "mesh";
+      // The triangles (x, y, z for each vertex of each triangle) of all the
+      // build items, in mm, centered on the origin and standing on z = 0
+      positions: Float32Array;
+      size: Vec3; // the size of the bounding box, in mm
+    };
+
+// Relationship type of the 3MF model, see the 3MF core specification
+const MODEL_RELATIONSHIP =
+  "http://schemas.microsoft.com/3dmanufacturing/2013/01/3dmodel";
+
+// Size of the 3MF model units (by their name in 3MF files), in mm: the units
+// of the app (see ./units.ts), and the other units allowed in 3MF files
+const TMF_UNIT_SIZES: Record<string, number> = {
+  ...Object.fromEntries(
+    Object.values(UNITS).map(({ name, size }) => [name, size]),
+  ),
+  micron: 0.001,
+  foot: 304.8,
+  meter: 1000,
+};
+
+// Max depth of nested components (guards against cycles)
+const MAX_COMPONENT_DEPTH = 16;
+
+// Reads the 3MF file (a zip archive), throwing if it isn't one
+export function read3mf(data: Uint8Array): Imported {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error("Not a 3MF file");
+  }
+
+  // The model is the target of the package's 3D model relationship
+  const rels = files["_rels/.rels"];
+  const modelPath =
+    rels === undefined
+      ? undefined
+      : Array.from(tags(strFromU8(rels)))
+          .find(
+            ({ name, attributes }) =>
+              name === "Relationship" && attributes.Type === MODEL_RELATIONSHIP,
+          )
+          ?.attributes.Target?.replace(/^\//, "");
+  const model = files[modelPath ?? "3D/3dmodel.model"];
+  if (model === undefined) {
+    throw new Error("Not a 3MF file (no model found)");
+  }
+
+  const xml = strFromU8(model);
+  const params = readParams(xml);
+  return params === undefined
+    ? { kind: "mesh", ...readMesh(xml) }
+    : { kind: "design", params };
+}
+
+// Reads (and validates) the parameters stored in the metadata, if any
+function readParams(xml: string): Partial<VaseParams> | undefined {
+  const [root] = tags(xml.match(/<(?:[\w.-]+:)?model\b[^>]*>/)?.[0] ?? "");
+  const prefix = Object.entries(root?.attributes ?? {}).find(
+    ([attribute, value]) =>
+      attribute.startsWith("xmlns:") && value === METADATA_NAMESPACE,
+  )?.[0];
+  if (prefix === undefined) {
+    return undefined;
+  }
+
+  const keyPrefix = `${prefix.slice("xmlns:".length)}:`;
+  const record: Record<string, string> = {};
+  for (const [, name, value] of xml.matchAll(
+    /<metadata\b[^>]*\bname="([^"]*)"[^>]*>([^<]*)<\/metadata>/g,
+  )) {
+    if (name.startsWith(keyPrefix)) {
+      record[name.slice(keyPrefix.length)] = unescapeXml(value);
+    }
+  }
+
+  const params = validateParams(record);
+  return Object.keys(params).length === 0 ? undefined : params;
+}
+
+// A 3MF transform: the 3x3 matrix and the translation, as 12 numbers (row by
+// row, the points being row vectors multiplied on the left)
+type Transform = number[];
+
+const IDENTITY: Transform = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+
+const parseTransform = (value: string | undefined): Transform => {
+  const numbers = value?.trim().split(/\s+/).map(Number);
+  return numbers?.length === 12 && numbers.every(Number.isFinite)
+    ? numbers
+    : IDENTITY;
+};
+
+// Applies 'first' and then 'then'
+const compose = (first: Transform, then: Transform): Transform => {
+  const [x0, y0, z0] = apply(then, first.slice(0, 3), 0);
+  const [x1, y1, z1] = apply(then, first.slice(3, 6), 0);
+  const [x2, y2, z2] = apply(then, first.slice(6, 9), 0);
+  const [x3, y3, z3] = apply(then, first.slice(9, 12), 1);
+  return [x0, y0, z0, x1, y1, z1, x2, y2, z2, x3, y3, z3];
+};
+
+// Transforms the point (w = 1) or the direction (w = 0)
+const apply = (m: Transform, [x, y, z]: number[], w: number): Vec3 => [
+  x * m[0] + y * m[3] + z * m[6] + w * m[9],
+  x * m[1] + y * m[4] + z * m[7] + w * m[10],
+  x * m[2] + y * m[5] + z * m[8] + w * m[11],
+];
+
+type Object3MF = {
+  vertices: number[];
+  triangles: number[];
+  components: { id: string; transform: Transform }[];
+};
+
+// Reads the triangles of the build items
+function readMesh(xml: string): { positions: Float32Array; size: Vec3 } {
+  const objects = new Map<string, Object3MF>();
+  const items: { id: string; transform: Transform }[] = [];
+  let unit = 1;
+  let object: Object3MF | undefined;
+
+  for (const { name, attributes, closing } of tags(xml)) {
+    if (name === "model" && !closing) {
+      unit = TMF_UNIT_SIZES[attributes.unit ?? "millimeter"] ?? 1;
+    } else if (name === "object") {
+      object = closing
+        ? undefined
+        : { vertices: [], triangles: [], components: [] };
+      if (object !== undefined && attributes.id !== undefined) {
+        objects.set(attributes.id, object);
+      }
+    } else if (name === "vertex" && object !== undefined) {
+      object.vertices.push(
+        ...["x", "y", "z"].map((c) => parseFloat(attributes[c] ?? "0")),
+      );
+    } else if (name === "triangle" && object !== undefined) {
+      object.triangles.push(
+        ...["v1", "v2", "v3"].map((v) => parseInt(attributes[v] ?? "0")),
+      );
+    } else if (name === "component" && object !== undefined) {
+      object.components.push({
+        id: attributes.objectid ?? "",
+        transform: parseTransform(attributes.transform),
+      });
+    } else if (name === "item" && !closing) {
+      items.push({
+        id: attributes.objectid ?? "",
+        transform: parseTransform(attributes.transform),
+      });
+    }
+  }
+
+  const positions: number[] = [];
+  const addObject = (id: string, transform: Transform, depth: number) => {
+    const object = objects.get(id);
+    if (object === undefined || depth > MAX_COMPONENT_DEPTH) {
+      return;
+    }
+
+    const { vertices, triangles, components } = object;
+    for (const v of triangles) {
+      const vertex = vertices.slice(3 * v, 3 * v + 3);
+      if (vertex.length === 3) {
+        positions.push(...apply(transform, vertex, 1));
+      }
+    }
+
+    components.forEach((component) =>
+      addObject(
+        component.id,
+        compose(component.transform, transform),
+        depth + 1,
+      ),
+    );
+  };
+  items.forEach(({ id, transform }) => addObject(id, transform, 0));
+
+  if (positions.length === 0) {
+    throw new Error("The 3MF file has no triangles");
+  }
+
+  // Center the triangles, scaled to mm
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  positions.forEach((c, i) => {
+    min[i % 3] = Math.min(min[i % 3], c);
+    max[i % 3] = Math.max(max[i % 3], c);
+  });
+  const origin = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, min[2]];
+
+  return {
+    positions: new Float32Array(
+      positions.map((c, i) => (c - origin[i % 3]) * unit),
+    ),
+    size: [0, 1, 2].map((i) => (max[i] - min[i]) * unit) as Vec3,
+  };
+}
+
+// The XML tags (without their namespace prefix), in order, e.g. <vertex x="1"
+// y="2" z="3"/>, with their attributes. Closing tags (e.g. </object>) are
+// marked as such.
+//
+// NOTE: 3MF models can be huge, so they are scanned (one tag at a time) rather
+// than parsed into a DOM
+function* tags(xml: string): Generator<{
+  name: string;
+  attributes: Record<string, string>;
+  closing: boolean;
+}> {
+  const tag =
+    /<(\/?)(?:[\w.-]+:)?([\w.-]+)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*\/?>/g;
+  const attribute = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  for (const [, closing, name, attributes] of xml.matchAll(tag)) {
+    yield {
+      name,
+      attributes: Object.fromEntries(
+        Array.from(
+          attributes.matchAll(attribute),
+          ([, key, double, single]) => [key, unescapeXml(double ?? single)],
+        ),
+      ),
+      closing: closing === "/",
+    };
+  }
+}
+
+const unescapeXml = (text: string): string =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) =>
+      String.fromCodePoint(parseInt(code, 16)),
+    )
+    .replace(/&amp;/g, "&");
@@ -1,31 +1,95 @@
-import { exportManifold } from "./export";
-import type { Manifold } from "manifold-3d";
+import { EXPORT_FORMATS, type ExportFormat } from "./export";
+import type { VaseParams } from "./manifold";
+import type { Unit } from "./units";
+import type { ModelWorker } from "../worker/client";
 
 type Result = { blob: Blob; filename: string };
 
-// A 3MF loader, that loads the Manifold and makes it available as a 3MF Blob when ready
-export class TMFLoader {
-  // The exported manifold, when ready
-  private loading?: { tmf?: Result };
+// The model's parameters and the exported blobs
+type Loading = {
+  params: VaseParams;
+  unit: Unit; // the unit of the exported coordinates (3MF)
+  basename: string; // filename, without extension
+  blobs: Partial<Record<ExportFormat, Blob>>;
+  requested: Partial<Record<ExportFormat, true>>;
+  taken?: ExportFormat; // the format the model was last taken in
+};
 
-  load(manifoldP: Promise<Manifold>, filename: string) {
-    this.loading = {}; // Initialize empty
+// A model loader, that has the worker export the model and makes it available
+// as a Blob (in any export format) when ready. The Blobs are requested on
+// demand and cached per format. 3MF files embed a thumbnail (PNG), rendered
+// on the page by 'thumbnail' (if it returns one).
+export class ModelLoader {
+  private loading?: Loading;
 
-    // Pass the _current_ "loading" to the promise closure, so that
-    // this.loading may be overriden if load() is called again. This
-    // ensures we can never take() an outdated model.
+  constructor(
+    private worker: ModelWorker,
+    private thumbnail: (params: VaseParams) => Promise<Uint8Array | undefined>,
+  ) {}
+
+  load(params: VaseParams, unit: Unit, basename: string) {
+    this.loading = { params, unit, basename, blobs: {}, requested: {} }; // Initialize empty
+  }
+
+  // Returns the model in the given format, if the model is ready and if it
+  // wasn't already taken in that format
+  take(format: ExportFormat): undefined | Result {
     const loading = this.loading;
-    manifoldP.then((manifold) => {
-      loading.tmf = { blob: exportManifold(manifold), filename };
-    });
+    if (loading === undefined || loading.taken === format) {
+      return undefined;
+    }
+
+    const blob = loading.blobs[format];
+    if (blob === undefined) {
+      this.request(loading, format);
+      return undefined;
+    }
+
+    // Ensure the model is taken only once (per format)
+    loading.taken = format;
+
+    const filename = `${loading.basename}.${EXPORT_FORMATS[format].extension}`;
+    return { blob, filename };
   }
 
-  take(): undefined | Result {
-    const tmf = this.loading?.tmf;
-    if (tmf !== undefined) {
-      // Ensure the model is taken only once
-      this.loading = undefined;
+  // Requests the model in the given format (once)
+  private request(loading: Loading, format: ExportFormat) {
+    if (loading.requested[format]) {
+      return;
     }
-    return tmf;
+    loading.requested[format] = true;
+
+    // Pass the _current_ "loading" to the promise closure, so that
+    // this.loading may be overriden if load() is called again. This
+    // ensures we can never take() an outdated model.
+    const thumbnail =
+      format === "3mf"
+        ? this.thumbnail(loading.params).catch((e) => {
+            console.warn("Could not render the thumbnail", e);
+            return undefined;
+          })
+        : Promise.resolve(undefined);
+    thumbnail
+      .then((thumbnail) =>
+        this.worker.request("export", {
+          params: loading.params,
+          format,
+          thumbnail,
+          unit: loading.unit,
+        }),
+      )
+      .then((blob) => {
+        if (blob !== undefined) {
+          loading.blobs[format] = blob;
+        } else {
+          // Cancelled (superseded by a newer export), allow requesting again
+          delete loading.requested[format];
+        }
+      })
+      .catch((e) => {
+        // Allow requesting again (e.g. when the download link is clicked)
+        delete loading.requested[format];
+        console.warn(`Could not export the model (${format})`, e);
+      });
   }
 }
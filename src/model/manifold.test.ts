@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import { frogHoleCount } from "./manifold";
+import { DEFAULT_PARAMS } from "./params";
+
+describe("frogHoleCount", () => {
+  const holes = (params: Partial<typeof DEFAULT_PARAMS>) =>
+    frogHoleCount({ ...DEFAULT_PARAMS, ...params });
+
+  it("is undefined without a frog, or with a lid", async () => {
+    expect(await holes({ frog: "none" })).toBeUndefined();
+    expect(await holes({ frog: "grid", lid: "cap" })).toBeUndefined();
+  });
+
+  it("makes the requested holes, or as many as fit", async () => {
+    const requested = [1, 2, 5, 9, 19, 40];
+    for (const frog of ["grid", "radial"] as const) {
+      const counts: number[] = [];
+      for (const frogHoles of requested) {
+        counts.push((await holes({ frog, frogHoles })) ?? 0);
+      }
+      expect(counts.slice(0, 3)).toEqual([1, 2, 5]);
+      counts.forEach((count, i) => {
+        expect(count).toBeLessThanOrEqual(requested[i]);
+        expect(count).toBeGreaterThanOrEqual(counts[i - 1] ?? 1);
+      });
+    }
+  });
+
+  it("is 0 when no hole fits", async () => {
+    expect(
+      await holes({ frog: "radial", outerRadius: 10, frogHoleDiameter: 12 }),
+    ).toBe(0);
+  });
+});
@@ -1,64 +1,1539 @@
-import type { Vec2, CrossSection, Manifold } from "manifold-3d";
+import type {
+  Vec2,
+  Vec3,
+  CrossSection,
+  Manifold,
+  SimplePolygon,
+} from "manifold-3d";
 import type { ManifoldToplevel } from "manifold-3d";
 import init from "manifold-3d";
-import manifold_wasm from "manifold-3d/manifold.wasm?url";
+
+import {
+  profileCurve,
+  isStraight,
+  vaseRadii,
+  MIN_CAVITY_RADIUS,
+} from "./profile";
+import { circleSegments } from "./resolution";
+import { textContours } from "./text";
+import { textureRelief, textureResolution, type Texture } from "./texture";
 
 // NOTE: all values are in mm
 
 // Load manifold 3d
-class ManifoldModule {
+export class ManifoldModule {
   private static wasm: ManifoldToplevel | undefined = undefined;
+
+  // The URL of the wasm file. When undefined, the file is looked up next to
+  // manifold's JS (which works in Node, but not for bundled apps)
+  static wasmUrl: string | undefined = undefined;
+
   static async get(): Promise<ManifoldToplevel> {
     if (this.wasm !== undefined) {
       return this.wasm;
     }
 
-    this.wasm = await init({ locateFile: () => manifold_wasm });
+    const wasmUrl = this.wasmUrl;
+    this.wasm = await init(
+      wasmUrl === undefined ? undefined : { locateFile: () => wasmUrl },
+    );
 
     await this.wasm.setup();
     return this.wasm;
   }
 }
 
-// Creates a circle cross-section centered at (0,0)
-async function circle(radius: number): Promise<CrossSection> {
+// Sets the URL manifold's wasm is loaded from (must be called before any model
+// is created)
+export function setManifoldWasmUrl(url: string) {
+  ManifoldModule.wasmUrl = url;
+}
+
+// Creates a circle cross-section centered at (0,0), with as many segments as
+// needed for the given max chord error (see ./resolution.ts)
+async function circle(
+  radius: number,
+  chordError: number,
+): Promise<CrossSection> {
+  const { CrossSection } = await ManifoldModule.get();
+  const segments = circleSegments(radius, chordError);
+
+  const vertices: Vec2[] = [];
+  for (let i = 0; i < segments; i++) {
+    const angle = (i * 2 * Math.PI) / segments;
+    vertices.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+  }
+
+  return new CrossSection(vertices);
+}
+
+// Creates a regular polygon cross-section centered at (0,0), with vertices on
+// the circle of given radius
+async function polygon(radius: number, sides: number): Promise<CrossSection> {
+  const { CrossSection } = await ManifoldModule.get();
+
+  const vertices: Vec2[] = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = (i * 2 * Math.PI) / sides;
+    vertices.push([radius * Math.cos(angle), radius * Math.sin(angle)]);
+  }
+
+  return new CrossSection(vertices);
+}
+
+// Creates a star cross-section centered at (0,0), with the tips on the circle
+// of given radius and the valleys at innerRatio * radius
+async function star(
+  radius: number,
+  points: number,
+  innerRatio: number,
+): Promise<CrossSection> {
   const { CrossSection } = await ManifoldModule.get();
-  const N_SEGMENTS = 64; // High resolution for smooth circle
 
   const vertices: Vec2[] = [];
-  for (let i = 0; i < N_SEGMENTS; i++) {
-    const angle = (i * 2 * Math.PI) / N_SEGMENTS;
-    vertices.push([
-      radius * Math.cos(angle),
-      radius * Math.sin(angle),
-    ]);
+  for (let i = 0; i < 2 * points; i++) {
+    const angle = (i * Math.PI) / points;
+    const r = i % 2 === 0 ? radius : radius * innerRatio;
+    vertices.push([r * Math.cos(angle), r * Math.sin(angle)]);
   }
 
   return new CrossSection(vertices);
 }
 
-// Creates a hollow cylinder with origin at the center of the bottom face
-export async function hollowCylinder(
+// Creates a regular polygon cross-section with rounded corners
+async function roundedPolygon(
+  radius: number,
+  sides: number,
+  cornerRadius: number,
+  chordError: number,
+): Promise<CrossSection> {
+  // The corner radius cannot be larger than the polygon's inradius
+  const inradius = radius * Math.cos(Math.PI / sides);
+  const r = Math.min(cornerRadius, 0.99 * inradius);
+
+  if (r <= 0) {
+    return polygon(radius, sides);
+  }
+
+  // Shrink, and then grow back with round corners
+  return (await polygon(radius, sides))
+    .offset(-r, "Miter", MITER_LIMIT)
+    .offset(r, "Round", undefined, circleSegments(r, chordError));
+}
+
+// Miter limit used when offsetting polygons, high enough for the sharpest star
+export const MITER_LIMIT = 10;
+
+// Cross-section shapes of the vase body
+export type SectionShape = "circle" | "polygon" | "star" | "rounded-polygon";
+
+// Creates the cross-section of the vase, with given radius
+async function section(
+  params: VaseParams,
+  radius: number,
+): Promise<CrossSection> {
+  // The section is scaled up to the top when the top is larger, so curves are
+  // made fine enough for the largest scale
+  const chordError = params.chordError / Math.max(1, params.scaleTop);
+  switch (params.section) {
+    case "circle":
+      return circle(radius, chordError);
+    case "polygon":
+      return polygon(radius, params.sides);
+    case "star":
+      return star(radius, params.sides, params.starRatio);
+    case "rounded-polygon":
+      return roundedPolygon(
+        radius,
+        params.sides,
+        params.cornerRadius,
+        chordError,
+      );
+  }
+}
+
+// Whether text is raised from the wall or engraved into it
+export type TextMode = "emboss" | "deboss";
+
+// How the lid closes the vase: a plug pressed into the opening, a cap over the
+// rim, or a plug screwed into a thread cut in the rim
+export type LidStyle = "none" | "plug" | "cap" | "threaded";
+
+// How the holes of the flower frog are laid out
+export type FrogPattern = "none" | "grid" | "radial";
+
+// The dimensions of a vase
+export type VaseParams = {
+  height: number;
+  outerRadius: number;
+  wallThickness: number;
+  closedBottom: boolean;
+  profile: readonly number[]; // radius ratios, see ./profile.ts
+
+  section: SectionShape;
+  sides: number; // number of sides (polygons) or tips (star)
+  starRatio: number; // ratio of the star's inner radius to its outer radius
+  cornerRadius: number; // corner radius of rounded polygons
+  twist: number; // twist of the top relative to the bottom, in degrees
+  scaleTop: number; // scale of the top relative to the bottom
+
+  spiralMode: boolean; // solid body, for slicers' spiral vase mode
+  bottomThickness: number; // bottom thickness in spiral vase mode
+  nozzleWidth: number; // width of the printed perimeter
+
+  chordError: number; // mesh resolution, see ./resolution.ts
+
+  drainageHoles: number; // number of holes through the (closed) bottom
+  drainageHoleDiameter: number;
+  drainageRingRadius: number; // distance from the holes' centers to the center
+
+  saucer: boolean; // whether to add a drip saucer
+  saucerClearance: number; // gap between the vase and the saucer's lip
+  saucerLipHeight: number; // height of the lip, above the saucer's floor
+
+  text: string; // text on the outer wall (none if empty)
+  textMode: TextMode;
+  textSize: number; // font size
+  textDepth: number; // how far the text is raised from or engraved into the wall
+  textPosition: number; // height of the text's center, in % of the height
+  textAngle: number; // position of the text's center around the vase, in degrees
+
+  texture: Texture; // relief on the outer wall, see ./texture.ts
+  textureAmplitude: number; // height of the relief
+  textureCount: number; // number of repeats around the vase
+  textureRows: number; // number of repeats along the height (waves & knurl)
+  texturePhase: number; // rotation of the texture around the vase, in degrees
+
+  liner: boolean; // whether to add a removable liner, sliding into the vase
+  linerClearance: number; // gap between the liner and the vase's inner wall
+  linerNotch: boolean; // whether to cut a finger notch in the liner's rim
+
+  lid: LidStyle;
+  lidInterference: number; // how much larger than the opening the plug is
+  lidClearance: number; // gap between the cap and the outer wall
+  threadPitch: number; // distance between two turns of the thread
+  threadTurns: number;
+  threadTolerance: number; // gap between the lid's thread and the rim's
+
+  frog: FrogPattern;
+  frogHoles: number;
+  frogHoleDiameter: number;
+  frogThickness: number; // how far the frog goes into the opening
+};
+
+// A printable part of the model, e.g. the vase or its saucer. The part stands
+// on the print bed (z = 0), around the origin.
+export type Part = {
+  name: string;
+  manifold: Manifold;
+  assembled: Placement; // where the part goes when the parts are put together
+};
+
+// Where a part goes: the part is turned upside down (around the X axis) if
+// 'flipped' (e.g. a lid, printed top down), and then moved by 'translation'
+export type Placement = { translation: Vec3; flipped?: boolean };
+
+// How the parts are placed: side by side as printed, put together (e.g. the
+// liner in the vase, the vase on its saucer), or put together but pulled apart
+// along the height
+export type Arrangement = "print" | "assembled" | "exploded";
+
+// Number of extra cross-sections inserted along the height, used to follow
+// the profile curve
+const N_PROFILE_DIVISIONS = 63;
+
+// Creates a vase with origin at the center of the bottom face.
+//
+// The outer wall follows the radius profile, and the inner wall (cavity) follows
+// the outer wall such that the wall thickness is measured perpendicular to the
+// (possibly curved) wall. The cavity has the same cross-section as the body,
+// offset inward by the wall thickness.
+//
+// In spiral vase mode, the slicer prints the body as a single perimeter (plus
+// some bottom layers) so the vase is solid.
+export async function vase(params: VaseParams): Promise<Manifold> {
+  if (params.spiralMode) {
+    return inscribe(await vaseSolid(params), params);
+  }
+
+  const { outerRadius, wallThickness, closedBottom, drainageHoles } = params;
+  const body = await inscribe(
+    await shell(params, printedThickness(params)),
+    params,
+  );
+
+  const holes =
+    !closedBottom || drainageHoles === 0 || outerRadius <= wallThickness
+      ? undefined
+      : await drainage(params);
+  const drained = holes === undefined ? body : body.subtract(holes);
+
+  const thread =
+    params.lid === "threaded" ? await rimThread(params) : undefined;
+  return thread === undefined ? drained : drained.subtract(thread);
+}
+
+// Creates the solid body of the vase, i.e. the vase with its cavity filled (and
+// without text)
+export async function vaseSolid(params: VaseParams): Promise<Manifold> {
+  return shell(params);
+}
+
+// Creates the vase as it will be printed, which is different from the model
+// in spiral vase mode: the wall is then a single perimeter (the width of the
+// nozzle) and the bottom is made of solid layers.
+export async function vasePreview(params: VaseParams): Promise<Manifold> {
+  if (!params.spiralMode) {
+    return vase(params);
+  }
+
+  const perimeter = await shell(params, printedThickness(params));
+
+  // The perimeter follows the engraved text
+  return inscribe(perimeter, params, { floor: params.nozzleWidth });
+}
+
+// The thickness of the vase's wall & bottom as printed: a single perimeter in
+// spiral vase mode (see vasePreview), the wall thickness otherwise
+function printedThickness(params: VaseParams): ShellThickness {
+  const { closedBottom, wallThickness } = params;
+  return params.spiralMode
+    ? {
+        wall: params.nozzleWidth,
+        bottom: closedBottom ? params.bottomThickness : 0,
+        texturedCavity: true,
+      }
+    : { wall: wallThickness, bottom: closedBottom ? wallThickness : 0 };
+}
+
+// Creates the cavity of the vase as printed, i.e. the water it holds when
+// filled to the rim. Returns undefined if the vase can't hold water (open or
+// drained bottom, or no cavity at all).
+export async function vaseCavity(
+  params: VaseParams,
+): Promise<Manifold | undefined> {
+  const { closedBottom, spiralMode, drainageHoles } = params;
+  // NOTE: there are no drainage holes in spiral vase mode (see vase())
+  if (!closedBottom || (!spiralMode && drainageHoles > 0)) {
+    return undefined;
+  }
+
+  const outerSection = await section(params, params.outerRadius);
+  return shellCavity(params, outerSection, printedThickness(params));
+}
+
+// Creates the vase's parts: the vase and, if enabled, its liner, lid, flower
+// frog & saucer (see arrange() to place them). When 'preview' is set, the vase
+// is created as it will be printed (see vasePreview).
+export async function vaseParts(
+  params: VaseParams,
+  { preview = false }: { preview?: boolean } = {},
+): Promise<Part[]> {
+  // When assembled, the vase sits in the saucer
+  const base = params.saucer ? SAUCER_THICKNESS : 0;
+
+  const parts: Part[] = [
+    {
+      name: "vase",
+      manifold: await (preview ? vasePreview(params) : vase(params)),
+      assembled: { translation: [0, 0, base] },
+    },
+  ];
+
+  if (params.liner) {
+    const manifold = await liner(params);
+    if (manifold !== undefined) {
+      const floor = cavityFloor(params);
+      parts.push({
+        name: "liner",
+        manifold,
+        assembled: { translation: [0, 0, base + floor] },
+      });
+    }
+  }
+
+  if (params.lid !== "none") {
+    const manifold = await lid(params);
+    if (manifold !== undefined) {
+      // The lid is printed top down, and put on the rim
+      const { height, wallThickness: thickness } = params;
+      parts.push({
+        name: "lid",
+        manifold,
+        assembled: {
+          translation: [0, 0, base + height + thickness],
+          flipped: true,
+        },
+      });
+    }
+  }
+
+  if (params.frog !== "none") {
+    const manifold = await frog(params);
+    if (manifold !== undefined) {
+      // The frog is printed top down, and put on the rim
+      const { height, wallThickness: thickness } = params;
+      parts.push({
+        name: "frog",
+        manifold,
+        assembled: {
+          translation: [0, 0, base + height + thickness],
+          flipped: true,
+        },
+      });
+    }
+  }
+
+  if (params.saucer) {
+    parts.push({
+      name: "saucer",
+      manifold: await saucer(params),
+      assembled: { translation: [0, 0, 0] },
+    });
+  }
+
+  return parts;
+}
+
+// Combines the parts into a single manifold (e.g. for rendering)
+export async function composeParts(parts: Part[]): Promise<Manifold> {
+  const { Manifold } = await ManifoldModule.get();
+  return Manifold.compose(parts.map(({ manifold }) => manifold));
+}
+
+// Space between parts laid out next to one another (or pulled apart)
+const PART_SPACING = 10;
+
+// Places the parts (see Arrangement)
+export function arrange(parts: Part[], arrangement: Arrangement): Part[] {
+  const placements = partPlacements(parts, arrangement);
+  return parts.map((part, i) => ({
+    ...part,
+    manifold: place(part.manifold, placements[i]),
+  }));
+}
+
+// Where each part goes (from the print bed) in the arrangement
+export function partPlacements(
+  parts: Part[],
+  arrangement: Arrangement,
+): Placement[] {
+  switch (arrangement) {
+    case "print":
+      return layout(parts);
+    case "assembled":
+      return parts.map(({ assembled }) => assembled);
+    case "exploded": {
+      // Going up from the lowest part, each part is lifted above the previous
+      const bounds = parts.map(({ manifold, assembled }) =>
+        place(manifold, assembled).boundingBox(),
+      );
+      const order = parts
+        .map((_, i) => i)
+        .sort((a, b) => bounds[a].min[2] - bounds[b].min[2]);
+      const placements = parts.map(({ assembled }) => ({
+        ...assembled,
+        translation: [...assembled.translation] as Vec3,
+      }));
+
+      let top = -Infinity;
+      order.forEach((i) => {
+        const { min, max } = bounds[i];
+        const lift = Math.max(0, top + PART_SPACING - min[2]);
+        placements[i].translation[2] += lift;
+        top = max[2] + lift;
+      });
+      return placements;
+    }
+  }
+}
+
+// Moves the manifold to the placement
+export function place(
+  manifold: Manifold,
+  { translation, flipped = false }: Placement,
+): Manifold {
+  return (flipped ? manifold.rotate([180, 0, 0]) : manifold).translate(
+    translation,
+  );
+}
+
+// Moves the point to the placement (same as place())
+export function placePoint(
+  [x, y, z]: Vec3,
+  { translation: [dx, dy, dz], flipped = false }: Placement,
+): Vec3 {
+  return flipped ? [x + dx, dy - y, dz - z] : [x + dx, y + dy, z + dz];
+}
+
+// A cut through the model, to see its walls: everything in front of a vertical
+// plane is removed. The plane faces 'direction' (horizontal, e.g. away from the
+// viewer) and is at 'position' between the front (-1) and the back (1) of the
+// model.
+export type Cutaway = { direction: Vec3; position: number };
+
+// How far from the cut plane the cut faces may be (numerical precision)
+const CUT_TOLERANCE = 1e-3;
+
+// Cuts the model away (see Cutaway). Returns what's left of the model, and the
+// faces of the cut (as triangles, x, y, z for each vertex).
+export function cutAway(
+  manifold: Manifold,
+  { direction, position }: Cutaway,
+): { manifold: Manifold; faces: Float32Array } {
+  const along = ([x, y, z]: Float32Array) =>
+    x * direction[0] + y * direction[1] + z * direction[2];
+
+  // The front & back of the model, along the direction
+  const { vertProperties, numProp } = manifold.getMesh();
+  let [front, back] = [Infinity, -Infinity];
+  for (let i = 0; i < vertProperties.length; i += numProp) {
+    const d = along(vertProperties.subarray(i, i + 3));
+    [front, back] = [Math.min(front, d), Math.max(back, d)];
+  }
+  const offset = (front + back) / 2 + ((back - front) * position) / 2;
+
+  const cut = manifold.trimByPlane(direction, offset);
+
+  // The cut faces are the triangles lying on the plane
+  const mesh = cut.getMesh();
+  const faces: number[] = [];
+  for (let i = 0; i < mesh.triVerts.length; i += 3) {
+    const triangle = [0, 1, 2].map((j) => {
+      const v = mesh.numProp * mesh.triVerts[i + j];
+      return mesh.vertProperties.subarray(v, v + 3);
+    });
+    if (triangle.every((v) => Math.abs(along(v) - offset) < CUT_TOLERANCE)) {
+      triangle.forEach((v) => faces.push(...v));
+    }
+  }
+
+  return { manifold: cut, faces: new Float32Array(faces) };
+}
+
+// Lays the parts out in a row along X, centered on the origin
+function layout(parts: Part[]): Placement[] {
+  if (parts.length <= 1) {
+    return parts.map(() => ({ translation: [0, 0, 0] }));
+  }
+
+  let x = 0;
+  const xs = parts.map(({ manifold }) => {
+    const { min, max } = manifold.boundingBox();
+    const moved = x - min[0];
+    x += max[0] - min[0] + PART_SPACING;
+    return moved;
+  });
+
+  const width = x - PART_SPACING;
+  return xs.map((moved) => ({ translation: [moved - width / 2, 0, 0] }));
+}
+
+// Creates the drainage holes, evenly spaced on a ring around the center and
+// going through the bottom of the vase. The holes are clipped to the cavity's
+// footprint so that they never cut into the outer wall (if the holes are all
+// outside of the footprint, there's nothing to cut and undefined is returned).
+async function drainage(params: VaseParams): Promise<Manifold | undefined> {
+  const { CrossSection } = await ManifoldModule.get();
+  const { outerRadius, wallThickness: wall } = params;
+  const { drainageHoles, drainageHoleDiameter, drainageRingRadius } = params;
+
+  const holes = await Promise.all(
+    Array.from({ length: drainageHoles }, async (_, i) => {
+      const angle = (i * 2 * Math.PI) / drainageHoles;
+      const hole = await circle(drainageHoleDiameter / 2, params.chordError);
+      return hole.translate([
+        drainageRingRadius * Math.cos(angle),
+        drainageRingRadius * Math.sin(angle),
+      ]);
+    }),
+  );
+
+  // The cavity at the bottom of the vase (where there's no twist or top scale)
+  const { cavityRadiusAt } = vaseRadii(params);
+  const innerRadius = outerRadius - wall;
+  const footprint = (await section(params, outerRadius))
+    .offset(-wall, "Miter", MITER_LIMIT)
+    .scale(cavityRadiusAt(0, wall) / innerRadius);
+
+  const cut = CrossSection.union(holes).intersect(footprint);
+  if (cut.isEmpty()) {
+    return undefined;
+  }
+
+  // Extend the holes below & above the bottom, for clean cuts
+  return cut.extrude(wall + 2).translate([0, 0, -1]);
+}
+
+// How far embossed text goes into the wall, for clean unions
+const TEXT_OVERLAP = 0.5;
+
+// The angle of the vase's front (towards -Y, i.e. the front of the print bed),
+// where text is centered by default, in degrees
+const TEXT_FRONT_ANGLE = -90;
+
+// Max angle covered by the text around the vase, in degrees (longer text is
+// scaled down to fit)
+const MAX_TEXT_ARC = 330;
+
+// Max length of the edges of the text, before it is wrapped around the vase
+// (the longer the edges, the more they cut through the curved wall)
+const TEXT_REFINE_LENGTH = 1;
+
+// Embosses the text on the body's outer wall, or engraves it (see textMode).
+// When 'floor' is set, the engraving is lined with walls of that thickness (for
+// bodies that are a thin shell, which would otherwise be cut through).
+async function inscribe(
+  body: Manifold,
+  params: VaseParams,
+  { floor }: { floor?: number } = {},
+): Promise<Manifold> {
+  const { outerRadius, textMode, textDepth } = params;
+
+  if (textMode === "emboss") {
+    const raised = await lettering(params, [-TEXT_OVERLAP, textDepth]);
+    return raised === undefined ? body : body.add(raised);
+  }
+
+  // The engraving extends well outside of the wall, so that no sliver of the
+  // wall is left at sharp edges (e.g. star tips)
+  const engraving = await lettering(params, [-textDepth, outerRadius]);
+  if (engraving === undefined) {
+    return body;
+  }
+
+  const engraved = body.subtract(engraving);
+  if (floor === undefined) {
+    return engraved;
+  }
+
+  const lining = await lettering(params, [-textDepth - floor, -floor / 2], {
+    grow: floor,
+  });
+  return lining === undefined
+    ? engraved
+    : engraved.add(lining.subtract(engraving));
+}
+
+// Creates the text's glyphs wrapped around the vase, spanning from 'inner' to
+// 'outer' perpendicular to the outer wall (negative values are inside the wall).
+// The glyphs follow the wall, including twist and profile, and keep their
+// proportions at the text's center. The glyphs may be made bolder by 'grow'.
+// Returns undefined if there's no text.
+async function lettering(
+  params: VaseParams,
+  [inner, outer]: [number, number],
+  { grow = 0 }: { grow?: number } = {},
+): Promise<Manifold | undefined> {
+  const { CrossSection } = await ManifoldModule.get();
+  const { height, text, textSize, textPosition, textAngle } = params;
+
+  const shapes = textContours(text, textSize);
+  if (shapes.length === 0) {
+    return undefined;
+  }
+
+  const glyphs = CrossSection.union(
+    shapes.map((contours) => CrossSection.ofPolygons(contours, "EvenOdd")),
+  );
+  if (glyphs.isEmpty()) {
+    return undefined;
+  }
+
+  const surfaceRadiusAt = await outerSurface(params);
+
+  // Fit the text in the height, centered around the text position, and then
+  // around the vase
+  const { min, max } = glyphs.bounds();
+  const [width, textHeight] = [max[0] - min[0], max[1] - min[1]];
+  const fitHeight = Math.min(1, height / textHeight);
+  const halfHeight = (fitHeight * textHeight) / 2;
+  const centerZ = Math.max(
+    halfHeight,
+    Math.min((textPosition / 100) * height, height - halfHeight),
+  );
+  const centerAngle = ((textAngle + TEXT_FRONT_ANGLE) * Math.PI) / 180;
+  const centerRadius = surfaceRadiusAt(centerAngle, centerZ);
+  const fit = Math.min(
+    fitHeight,
+    ((MAX_TEXT_ARC * Math.PI) / 180) * (centerRadius / width),
+  );
+
+  // Wrap the flat text (X along the wall, Y up, Z outward) around the vase
+  return glyphs
+    .translate([-(min[0] + max[0]) / 2, -(min[1] + max[1]) / 2])
+    .scale(fit)
+    .offset(grow, "Round")
+    .extrude(1)
+    .refineToLength(TEXT_REFINE_LENGTH)
+    .warp((vert: Vec3): void => {
+      const angle = centerAngle + vert[0] / centerRadius;
+      const z = centerZ + vert[1];
+      const r = surfaceRadiusAt(angle, z) + inner + vert[2] * (outer - inner);
+      vert[0] = r * Math.cos(angle);
+      vert[1] = r * Math.sin(angle);
+      vert[2] = z;
+    });
+}
+
+// Returns a function giving the distance from the vase's axis to the outer wall
+// (without texture), at the given angle (in radians) and height
+async function outerSurface(
+  params: VaseParams,
+): Promise<(angle: number, z: number) => number> {
+  const { height, outerRadius, twist } = params;
+  const { radiusAt } = vaseRadii(params);
+  const polygons = (await section(params, outerRadius)).toPolygons();
+
+  // The extrusion rotates the cross-section linearly along the height
+  return (angle, z) =>
+    (radiusAt(z) / outerRadius) *
+    rayDistance(polygons, angle - (twist * Math.PI * z) / (180 * height));
+}
+
+// The distance from the origin to the farthest crossing of the polygons' edges
+// in the given direction
+function rayDistance(polygons: SimplePolygon[], angle: number): number {
+  const [dx, dy] = [Math.cos(angle), Math.sin(angle)];
+  const cross = (ux: number, uy: number, vx: number, vy: number) =>
+    ux * vy - uy * vx;
+
+  let distance = 0;
+  polygons.forEach((polygon) =>
+    polygon.forEach(([ax, ay], i) => {
+      const [bx, by] = polygon[(i + 1) % polygon.length];
+      const [ex, ey] = [bx - ax, by - ay];
+
+      // Solve t * d = a + s * e, with t the distance along the ray and s the
+      // position on the edge
+      const det = cross(dx, dy, ex, ey);
+      if (det === 0) return; // parallel
+
+      const t = cross(ax, ay, ex, ey) / det;
+      const s = cross(ax, ay, dx, dy) / det;
+      if (0 <= s && s <= 1) {
+        distance = Math.max(distance, t);
+      }
+    }),
+  );
+
+  return distance;
+}
+
+// Thickness of the saucer's floor & lip
+const SAUCER_THICKNESS = 2;
+
+// Creates a drip saucer: a tray whose lip goes around the bottom of the vase,
+// with some clearance
+async function saucer(params: VaseParams): Promise<Manifold> {
+  const { outerRadius, saucerClearance, saucerLipHeight } = params;
+
+  // The footprint of the vase (where there's no twist or top scale)
+  const footprint = (await section(params, outerRadius)).scale(
+    profileCurve(params.profile)(0),
+  );
+
+  // The texture's relief is added to the clearance, as it only goes outward
+  const relief = params.texture === "none" ? 0 : params.textureAmplitude;
+  const inside = footprint.offset(saucerClearance + relief, "Round");
+  const outside = inside.offset(SAUCER_THICKNESS, "Round");
+
+  return outside
+    .extrude(SAUCER_THICKNESS + saucerLipHeight)
+    .subtract(
+      inside.extrude(saucerLipHeight + 1).translate([0, 0, SAUCER_THICKNESS]),
+    );
+}
+
+// Radius of the finger notch cut into the liner's rim, to lift the liner out
+const LINER_NOTCH_RADIUS = 10;
+
+// Number of heights at which the cavity is measured to fit the liner
+const N_LINER_SAMPLES = 256;
+
+// The height of the cavity's floor (as printed), where the liner rests
+function cavityFloor(params: VaseParams): number {
+  const { closedBottom, spiralMode, bottomThickness, wallThickness } = params;
+  if (!closedBottom) {
+    return 0;
+  }
+  return spiralMode ? bottomThickness : wallThickness;
+}
+
+// Creates the liner: a pot sliding into the vase's cavity (as printed) with some
+// clearance, hollowed out with the vase's wall thickness. The liner rests on
+// the cavity's floor and is flush with the vase's rim.
+//
+// To slide in from the top, the liner is nowhere wider than the narrowest point
+// of the cavity above it (e.g. it is straight below the neck of a bulb vase).
+// The liner is twisted like the vase, so that it can be screwed in. Returns
+// undefined if the cavity is too narrow for a liner.
+async function liner(params: VaseParams): Promise<Manifold | undefined> {
+  const { Manifold } = await ManifoldModule.get();
+  const { wallThickness } = params;
+
+  const shape = await linerShape(params);
+  if (shape === undefined) {
+    return undefined;
+  }
+
+  const { linerHeight, linerTwist, linerRadius, outerSection, innerSection } =
+    shape;
+  const { radiusAt, innerRadiusAt } = shape;
+  const outer = outerSection
+    .extrude(linerHeight, N_PROFILE_DIVISIONS, linerTwist)
+    .warp(scaleXY((z) => radiusAt(z) / linerRadius));
+  const inner = innerSection
+    .extrude(linerHeight, N_PROFILE_DIVISIONS, linerTwist)
+    .warp(scaleXY((z) => innerRadiusAt(z) / (linerRadius - wallThickness)))
+    .trimByPlane([0, 0, 1], wallThickness);
+
+  const body = outer.subtract(inner);
+  if (!params.linerNotch) {
+    return body;
+  }
+
+  // A half-round notch in the rim, at the front (towards -Y). On small liners,
+  // the notch is narrower so that it doesn't leave slivers of the wall.
+  const { min, max } = body.boundingBox();
+  const reach = Math.max(-min[0], -min[1], max[0], max[1]) + 1;
+  const notchRadius = Math.min(
+    LINER_NOTCH_RADIUS,
+    linerHeight / 2,
+    radiusAt(linerHeight) / 2,
+  );
+  const notch = Manifold.cylinder(reach, notchRadius, notchRadius, 32)
+    .rotate([90, 0, 0])
+    .translate([0, 0, linerHeight]);
+
+  return body.subtract(notch);
+}
+
+// The shape of the liner (see liner()): its height & twist, the cross-sections
+// of its walls at the bottom (made for the radius 'linerRadius') and the radii
+// of the walls at height z (from the liner's bottom). Returns undefined if the
+// cavity is too narrow for a liner.
+async function linerShape(params: VaseParams): Promise<
+  | {
+      linerHeight: number;
+      linerTwist: number;
+      linerRadius: number;
+      outerSection: CrossSection;
+      innerSection: CrossSection;
+      radiusAt: (z: number) => number;
+      innerRadiusAt: (z: number) => number;
+    }
+  | undefined
+> {
+  const { height, outerRadius, twist, wallThickness, linerClearance } = params;
+
+  // The walls of the printed vase (see vasePreview). In spiral mode, the lining
+  // of engraved text sticks out into the cavity.
+  const wall = params.spiralMode ? params.nozzleWidth : wallThickness;
+  const debossed = params.text.trim() !== "" && params.textMode === "deboss";
+  const clearance =
+    linerClearance + (params.spiralMode && debossed ? params.textDepth : 0);
+
+  const floor = cavityFloor(params);
+  const linerHeight = height - floor;
+  const cavityRadius = outerRadius - wall;
+  const linerRadius = cavityRadius - clearance;
+  if (linerHeight <= wallThickness || linerRadius <= wallThickness) {
+    return undefined;
+  }
+
+  const outerSection = (await section(params, outerRadius))
+    .offset(-wall - clearance, "Miter", MITER_LIMIT)
+    // The liner starts at the floor, where the cavity is already twisted
+    .rotate((twist * floor) / height);
+  const innerSection = outerSection.offset(
+    -wallThickness,
+    "Miter",
+    MITER_LIMIT,
+  );
+  if (innerSection.isEmpty()) {
+    return undefined;
+  }
+
+  // The narrowest the cavity gets above each sampled height, as a ratio of the
+  // cavity's radius
+  const { cavityRadiusAt } = vaseRadii(params);
+  const narrowest = Array.from({ length: N_LINER_SAMPLES + 1 }, (_, i) =>
+    cavityRadiusAt(floor + (linerHeight * i) / N_LINER_SAMPLES, wall),
+  );
+  for (let i = N_LINER_SAMPLES - 1; i >= 0; i--) {
+    narrowest[i] = Math.min(narrowest[i], narrowest[i + 1]);
+  }
+  if (narrowest[0] - clearance <= wallThickness) {
+    return undefined;
+  }
+
+  // The liner's outer radius at height z (from the liner's bottom)
+  const radiusAt = (z: number) => {
+    const t = Math.max(
+      0,
+      Math.min((z / linerHeight) * N_LINER_SAMPLES, N_LINER_SAMPLES),
+    );
+    const i = Math.min(Math.floor(t), N_LINER_SAMPLES - 1);
+    const r = narrowest[i] + (narrowest[i + 1] - narrowest[i]) * (t - i);
+    return r - clearance;
+  };
+
+  // Same as the vase's cavity, the wall thickness is measured perpendicular to
+  // the wall
+  const eps = linerHeight / 1000;
+  const innerRadiusAt = (z: number) => {
+    const slope = (radiusAt(z + eps) - radiusAt(z - eps)) / (2 * eps);
+    const delta = wallThickness * Math.sqrt(1 + slope * slope);
+    return Math.max(MIN_CAVITY_RADIUS, radiusAt(z) - delta);
+  };
+
+  return {
+    linerHeight,
+    linerTwist: (twist * linerHeight) / height,
+    linerRadius,
+    outerSection,
+    innerSection,
+    radiusAt,
+    innerRadiusAt,
+  };
+}
+
+// Depth of the lid's plug, or of the cap's sides, below the rim
+const LID_DEPTH = 10;
+
+// Number of heights at which the rim is measured to fit the lid
+const N_RIM_SAMPLES = 8;
+
+// Creates the lid, printed top down (see LidStyle). The lid's top is as thick as
+// the vase's wall. Returns undefined if the vase's opening is too small for the
+// lid, or for a threaded lid in spiral vase mode (where the thread can't be cut
+// in the single perimeter wall).
+async function lid(params: VaseParams): Promise<Manifold | undefined> {
+  const { Manifold } = await ManifoldModule.get();
+  const { height, wallThickness: thickness } = params;
+
+  if (
+    params.lid === "none" ||
+    (params.lid === "threaded" && params.spiralMode)
+  ) {
+    return undefined;
+  }
+
+  // The lid is first created upright with the rim at z = 0
+  const depth = Math.min(LID_DEPTH, height / 2);
+  const { opening, outside, top } = await rimSections(params, depth);
+  const cover = top.extrude(thickness);
+
+  let upright: Manifold;
+  switch (params.lid) {
+    case "plug": {
+      const plug = opening.offset(params.lidInterference, "Miter", MITER_LIMIT);
+      if (plug.isEmpty()) {
+        return undefined;
+      }
+      const ring = plug.subtract(plug.offset(-thickness, "Miter", MITER_LIMIT));
+      upright = cover.add(ring.extrude(depth).translate([0, 0, -depth]));
+      break;
+    }
+    case "cap": {
+      // The cap's sides go around the rim, and so does its top
+      const inside = outside.offset(params.lidClearance, "Round");
+      upright = inside
+        .offset(thickness, "Round")
+        .extrude(depth + thickness)
+        .translate([0, 0, -depth])
+        .subtract(inside.extrude(depth + 1).translate([0, 0, -depth - 1]));
+      break;
+    }
+    case "threaded": {
+      const thread = await threadDimensions(params);
+      if (thread === undefined) {
+        return undefined;
+      }
+
+      // The lid's thread fits in the rim's (see rimThread), with some play
+      const { radius, depth: threadDepth, length } = thread;
+      const core = radius - params.threadTolerance;
+      const screw = (
+        await threadSolid(core, threadDepth, params.threadPitch, [
+          height - length,
+          height,
+        ])
+      ).translate([0, 0, -height]);
+      // The screw is hollow, unless it's too thin
+      const bore = core - thickness;
+      upright = cover.add(
+        bore > thickness
+          ? screw.subtract(
+              Manifold.cylinder(length, bore, bore, 64).translate([
+                0,
+                0,
+                -length,
+              ]),
+            )
+          : screw,
+      );
+      break;
+    }
+  }
+
+  return upright.rotate([180, 0, 0]).translate([0, 0, thickness]);
+}
+
+// The cross-sections of the rim, down to 'depth' below the top: the opening
+// anything pushed in must fit through, the outline anything pulled over the rim
+// must go around, and the top of the vase's outer wall
+async function rimSections(
+  params: VaseParams,
+  depth: number,
+): Promise<{
+  opening: CrossSection;
+  outside: CrossSection;
+  top: CrossSection;
+}> {
+  const { CrossSection } = await ManifoldModule.get();
+  const { height, outerRadius, twist } = params;
+  const { radiusAt, cavityRadiusAt } = vaseRadii(params);
+
+  // The walls of the printed vase (see vasePreview)
+  const wall = params.spiralMode ? params.nozzleWidth : params.wallThickness;
+  const outerSection = await section(params, outerRadius);
+  const innerSection = outerSection.offset(-wall, "Miter", MITER_LIMIT);
+
+  // The cross-sections of the outer wall & the cavity, as extruded (see shell)
+  const sectionsAt = (z: number) => ({
+    outer: outerSection
+      .scale(radiusAt(z) / outerRadius)
+      .rotate((twist * z) / height),
+    cavity: innerSection
+      .scale(cavityRadiusAt(z, wall) / (outerRadius - wall))
+      .rotate((twist * z) / height),
+  });
+  const samples = Array.from({ length: N_RIM_SAMPLES + 1 }, (_, i) =>
+    sectionsAt(height - (depth * i) / N_RIM_SAMPLES),
+  );
+
+  // The texture's relief is added, as it only goes outward
+  const relief = params.texture === "none" ? 0 : params.textureAmplitude;
+
+  // NOTE: CrossSection.intersection() only keeps the first of many sections, so
+  // the sections are intersected one by one
+  return {
+    opening: samples
+      .map(({ cavity }) => cavity)
+      .reduce((opening, cavity) => opening.intersect(cavity)),
+    outside: CrossSection.union(samples.map(({ outer }) => outer)).offset(
+      relief,
+      "Round",
+    ),
+    top: samples[0].outer,
+  };
+}
+
+// Ratio of the thread's depth to its pitch
+const THREAD_DEPTH_RATIO = 0.3;
+
+// How far the rim's opening is bored out beyond the cavity, so that the thread
+// is cut around a clean circle
+const THREAD_BORE = 0.2;
+
+// Number of vertices around the thread, and of rings per pitch along the height
+const THREAD_SEGMENTS = 128;
+const THREAD_RINGS_PER_PITCH = 24;
+
+// The dimensions of the thread cut in the rim: the radius of the bored out
+// opening, the depth of the groove and its length down from the top. Returns
+// undefined if the opening is too small.
+async function threadDimensions(
+  params: VaseParams,
+): Promise<{ radius: number; depth: number; length: number } | undefined> {
+  const { height, threadPitch, threadTurns, threadTolerance } = params;
+  const length = Math.min(threadPitch * threadTurns, height / 2);
+  const depth = THREAD_DEPTH_RATIO * threadPitch;
+
+  const { opening } = await rimSections(params, length);
+  if (opening.isEmpty()) {
+    return undefined;
+  }
+
+  const radius = inradius(opening) + THREAD_BORE;
+  return radius - threadTolerance > depth
+    ? { radius, depth, length }
+    : undefined;
+}
+
+// The thread cut in the rim for a threaded lid, or undefined if the opening is
+// too small
+async function rimThread(params: VaseParams): Promise<Manifold | undefined> {
+  const thread = await threadDimensions(params);
+  if (thread === undefined) {
+    return undefined;
+  }
+
+  // The cut extends above the rim, for a clean cut
+  const { radius, depth, length } = thread;
+  const { height, threadPitch } = params;
+  return threadSolid(radius, depth, threadPitch, [height - length, height + 1]);
+}
+
+// Creates a (right-handed) thread between heights 'z0' & 'z1': a cylinder of the
+// given radius, with the thread sticking out by 'depth'. The thread's position
+// only depends on the height, so that threads created at the same height
+// match (e.g. the lid's & the rim's).
+async function threadSolid(
+  radius: number,
+  depth: number,
+  pitch: number,
+  [z0, z1]: [number, number],
+): Promise<Manifold> {
+  const outline = Array.from({ length: THREAD_SEGMENTS }, (_, i): Vec2 => {
+    const angle = (2 * Math.PI * i) / THREAD_SEGMENTS;
+    return [radius * Math.cos(angle), radius * Math.sin(angle)];
+  });
+  const height = z1 - z0;
+  const nRings = Math.ceil((height / pitch) * THREAD_RINGS_PER_PITCH) + 1;
+
+  const thread = await reliefExtrusion(outline, height, nRings, {
+    relief: (angle, z) => {
+      const turns = (z + z0) / pitch - angle / (2 * Math.PI);
+      return depth * threadProfile(turns - Math.floor(turns));
+    },
+  });
+  return thread.translate([0, 0, z0]);
+}
+
+// The thread's profile: how far the thread sticks out (between 0 & 1) at the
+// given position within a pitch (between 0 & 1). The flanks are a bit steeper
+// than 45° so that the thread is printed without support.
+function threadProfile(t: number): number {
+  const [root, flank] = [0.18, 0.32];
+  if (t < root) return 0;
+  if (t < root + flank) return (t - root) / flank;
+  if (t < 1 - flank) return 1;
+  return (1 - t) / flank;
+}
+
+// Gap between the flower frog and the opening it's put in
+const FROG_CLEARANCE = 0.3;
+
+// Lays out the flower frog (see frog()): the plate put in the opening, down to
+// 'depth' below the rim, the top of the rim and the centers of the holes that
+// fit (possibly fewer than requested, or none if the opening is too small).
+// Returns undefined if there's no frog, or a lid (which takes the frog's place
+// in the rim).
+async function frogLayout(params: VaseParams): Promise<
+  | {
+      depth: number;
+      plate: CrossSection;
+      top: CrossSection;
+      centers: Vec2[];
+    }
+  | undefined
+> {
+  const { height, wallThickness: thickness } = params;
+  const { frogHoles, frogHoleDiameter, frogThickness } = params;
+
+  if (params.frog === "none" || params.lid !== "none") {
+    return undefined;
+  }
+
+  // The frog is first created upright with the rim at z = 0
+  const depth = Math.min(frogThickness, height / 2);
+  const { opening, top } = await rimSections(params, depth);
+  const plate = (
+    (params.liner ? await linerOpening(params, depth) : undefined) ?? opening
+  ).offset(-FROG_CLEARANCE, "Miter", MITER_LIMIT);
+  if (plate.isEmpty()) {
+    return { depth, plate, top, centers: [] };
+  }
+
+  // The holes are laid out in the largest circle that fits in the plate, with
+  // as much material as in the wall around & between them
+  const spread = inradius(plate) - thickness - frogHoleDiameter / 2;
+  const pitch = frogHoleDiameter + thickness;
+  const centers =
+    params.frog === "grid"
+      ? gridHoles(frogHoles, spread, pitch)
+      : radialHoles(frogHoles, spread, pitch);
+
+  return { depth, plate, top, centers };
+}
+
+// The number of holes of the flower frog, which may be fewer than requested
+// when they don't all fit (none if the frog is left out, see frog()).
+// Undefined if there's no frog.
+export async function frogHoleCount(
+  params: VaseParams,
+): Promise<number | undefined> {
+  return (await frogLayout(params))?.centers.length;
+}
+
+// Creates the flower frog: a plate put in the vase's opening (or in the liner's,
+// if any) with holes holding the stems upright, and a lip resting on the rim.
+// The frog is printed top down, on its lip, which is as thick as the vase's
+// wall. Returns undefined if there's no frog (see frogLayout) or if the
+// opening is too small for a hole.
+async function frog(params: VaseParams): Promise<Manifold | undefined> {
+  const { CrossSection } = await ManifoldModule.get();
+  const { wallThickness: thickness, frogHoleDiameter } = params;
+
+  const layout = await frogLayout(params);
+  if (layout === undefined || layout.centers.length === 0) {
+    return undefined;
+  }
+
+  const { depth, plate, top, centers } = layout;
+  const hole = await circle(frogHoleDiameter / 2, params.chordError);
+  const holes = CrossSection.union(
+    centers.map((center) => hole.translate(center)),
+  );
+  const upright = plate
+    .subtract(holes)
+    .extrude(depth)
+    .translate([0, 0, -depth])
+    .add(top.subtract(holes).extrude(thickness));
+
+  return upright.rotate([180, 0, 0]).translate([0, 0, thickness]);
+}
+
+// The cross-section of the liner's opening, down to 'depth' below its rim (see
+// rimSections), or undefined if there's no liner
+async function linerOpening(
+  params: VaseParams,
+  depth: number,
+): Promise<CrossSection | undefined> {
+  const shape = await linerShape(params);
+  if (shape === undefined) {
+    return undefined;
+  }
+
+  const { linerHeight, linerTwist, linerRadius, innerSection } = shape;
+  const { innerRadiusAt } = shape;
+  return Array.from({ length: N_RIM_SAMPLES + 1 }, (_, i) => {
+    const z = linerHeight - (Math.min(depth, linerHeight) * i) / N_RIM_SAMPLES;
+    return innerSection
+      .scale(innerRadiusAt(z) / (linerRadius - params.wallThickness))
+      .rotate((linerTwist * z) / linerHeight);
+  }).reduce((opening, section) => opening.intersect(section));
+}
+
+// The centers of (at most) 'count' holes on a square grid, within 'spread' of
+// the origin. The grid is as loose as possible for the holes to fit, but no
+// tighter than 'pitch'. The holes closest to the origin are kept.
+function gridHoles(count: number, spread: number, pitch: number): Vec2[] {
+  if (spread < 0) {
+    return [];
+  }
+
+  // The points of the grid (aligned on the origin or offset by half a step)
+  const grid = (step: number, offset: number): Vec2[] => {
+    const n = Math.floor(spread / step) + 1;
+    const points: Vec2[] = [];
+    for (let i = -n; i <= n; i++) {
+      for (let j = -n; j <= n; j++) {
+        const [x, y] = [(i + offset) * step, (j + offset) * step];
+        if (Math.hypot(x, y) <= spread) {
+          points.push([x, y]);
+        }
+      }
+    }
+    return points;
+  };
+
+  // Tighten the grid, starting from the spacing for which the holes would
+  // cover the circle, until enough holes fit (else as many as possible)
+  let step = Math.max(pitch, Math.sqrt((Math.PI * spread * spread) / count));
+  let points = [grid(pitch, 0), grid(pitch, 0.5)].reduce((a, b) =>
+    b.length > a.length ? b : a,
+  );
+  for (; step >= pitch; step *= 0.98) {
+    const fits = [grid(step, 0), grid(step, 0.5)].filter(
+      (candidate) => candidate.length >= count,
+    );
+    if (fits.length > 0) {
+      points = fits.reduce((a, b) => (b.length < a.length ? b : a));
+      break;
+    }
+  }
+
+  return points
+    .sort(([ax, ay], [bx, by]) => Math.hypot(ax, ay) - Math.hypot(bx, by))
+    .slice(0, count);
+}
+
+// The centers of (at most) 'count' holes on concentric rings within 'spread'
+// of the origin, 'pitch' apart. The first hole is at the center (the innermost
+// ring is always at least 'pitch' away), and the others are shared between the
+// rings in proportion to their radius, starting with the outermost ring.
+function radialHoles(count: number, spread: number, pitch: number): Vec2[] {
+  if (spread < 0) {
+    return [];
+  }
+
+  const radii = Array.from(
+    { length: Math.floor(spread / pitch) },
+    (_, i) => spread - i * pitch,
+  );
+  // The max number of holes on each ring, 'pitch' apart
+  const capacities = radii.map((r) =>
+    Math.floor(Math.PI / Math.asin(Math.min(1, pitch / (2 * r)))),
+  );
+
+  const center = count > 0;
+  const counts = radii.map(() => 0);
+  for (let n = 1; n < count; n++) {
+    // The least crowded ring with room left
+    let ring = -1;
+    for (let i = 0; i < radii.length; i++) {
+      if (
+        counts[i] < capacities[i] &&
+        (ring < 0 || counts[i] / radii[i] < counts[ring] / radii[ring])
+      ) {
+        ring = i;
+      }
+    }
+    if (ring < 0) {
+      break;
+    }
+    counts[ring]++;
+  }
+
+  // Every other ring is turned by half a step, so that the holes are staggered
+  const rings = radii.flatMap((r, i) =>
+    Array.from({ length: counts[i] }, (_, j): Vec2 => {
+      const angle = (2 * Math.PI * (j + (i % 2) / 2)) / counts[i];
+      return [r * Math.cos(angle), r * Math.sin(angle)];
+    }),
+  );
+  return center ? [[0, 0], ...rings] : rings;
+}
+
+// The radius of the largest circle around the origin that fits in the
+// cross-section
+function inradius(crossSection: CrossSection): number {
+  let radius = Infinity;
+  crossSection.toPolygons().forEach((polygon) =>
+    polygon.forEach(([ax, ay], i) => {
+      // The point of the edge closest to the origin
+      const [bx, by] = polygon[(i + 1) % polygon.length];
+      const [ex, ey] = [bx - ax, by - ay];
+      const s = -(ax * ex + ay * ey) / (ex * ex + ey * ey);
+      const t = Math.max(0, Math.min(1, s));
+      radius = Math.min(radius, Math.hypot(ax + t * ex, ay + t * ey));
+    }),
+  );
+  return radius;
+}
+
+// The thickness of a shell's wall & bottom (a bottom thickness of 0 means an
+// open bottom). The cavity follows the texture if 'texturedCavity' is set (e.g.
+// for a single perimeter following the texture).
+type ShellThickness = {
+  wall: number;
+  bottom: number;
+  texturedCavity?: boolean;
+};
+
+// Creates the vase body, hollowed out with the given wall & bottom thickness
+// (see shellCavity). If no thickness is specified, the body is solid.
+//
+// The twist and top scale are applied by the extrusion, and the profile is then
+// applied on top by scaling the extruded cross-sections. The outer wall is
+// textured.
+async function shell(
+  params: VaseParams,
+  thickness?: ShellThickness,
+): Promise<Manifold> {
+  const { height, outerRadius, twist, scaleTop } = params;
+
+  const curve = profileCurve(params.profile);
+  const { radiusAt } = vaseRadii(params);
+
+  const nDivisions =
+    isStraight(params.profile) && twist === 0 ? 0 : N_PROFILE_DIVISIONS;
+
+  // The texture's relief, if the vase is textured
+  const relief = textureRelief(params);
+
+  // Create outer body, scaled along the profile
+  // NOTE: the top scale is passed as a Vec2, as the bindings do not apply a single
+  // number to both X & Y
+  const outerSection = await section(params, outerRadius);
+  const outer =
+    relief === undefined
+      ? outerSection
+          .extrude(height, nDivisions, twist, [scaleTop, scaleTop])
+          .warp(scaleXY((z) => curve(z / height)))
+      : await texturedExtrusion(
+          params,
+          relief,
+          outerSection,
+          (z) => radiusAt(z) / outerRadius,
+        );
+
+  if (thickness === undefined) {
+    return outer;
+  }
+
+  const cavity = await shellCavity(params, outerSection, thickness);
+
+  // Subtract inner from outer to create the hollow vase
+  return cavity === undefined ? outer : outer.subtract(cavity);
+}
+
+// Creates the cavity of a shell (see shell()), whose outer wall has the given
+// cross-section: the cross-section offset inward by the wall thickness, above
+// the bottom. Returns undefined if the wall is too thick to leave a cavity.
+async function shellCavity(
+  params: VaseParams,
+  outerSection: CrossSection,
+  { wall, bottom, texturedCavity = false }: ShellThickness,
+): Promise<Manifold | undefined> {
+  const { height, outerRadius, twist, scaleTop } = params;
+
+  const { cavityRadiusAt } = vaseRadii(params);
+  const relief = textureRelief(params);
+
+  const nDivisions =
+    isStraight(params.profile) && twist === 0 ? 0 : N_PROFILE_DIVISIONS;
+
+  // The scale applied by the extrusion at height z
+  const extrudeScaleAt = (z: number) => 1 + ((scaleTop - 1) * z) / height;
+
+  const innerRadius = outerRadius - wall;
+  if (innerRadius <= 0) {
+    // Wall is thicker than the vase, nothing to hollow out
+    return undefined;
+  }
+
+  const innerSection = outerSection.offset(-wall, "Miter", MITER_LIMIT);
+  if (innerSection.isEmpty()) {
+    // Wall is thicker than the cross-section (e.g. thin star), same as above
+    return undefined;
+  }
+
+  // Create inner body (hollow part) spanning the full height, and cut off
+  // the bottom if the bottom is closed
+  const innerScaleAt = (z: number) => cavityRadiusAt(z, wall) / innerRadius;
+  const inner =
+    texturedCavity && relief !== undefined
+      ? await texturedExtrusion(params, relief, innerSection, innerScaleAt)
+      : innerSection
+          .extrude(height, nDivisions, twist, [scaleTop, scaleTop])
+          .warp(scaleXY((z) => innerScaleAt(z) / extrudeScaleAt(z)));
+
+  return bottom > 0 ? inner.trimByPlane([0, 0, 1], bottom) : inner;
+}
+
+// Extrudes the cross-section like the vase's body (with the twist, and scaled by
+// 'scaleAt' along the height) and pushes its side outward by the texture's
+// relief (see textureRelief).
+async function texturedExtrusion(
+  params: VaseParams,
+  relief: (angle: number, z: number) => number,
+  crossSection: CrossSection,
+  scaleAt: (z: number) => number,
+): Promise<Manifold> {
+  const { height, twist, textureAmplitude } = params;
+  const resolution = textureResolution(params);
+
+  // NOTE: the cross-sections are star-shaped around the axis, hence a single
+  // outline
+  const outline = subdivide(crossSection.toPolygons()[0], resolution);
+  const nRings =
+    Math.max(N_PROFILE_DIVISIONS, Math.ceil(height / resolution)) + 1;
+
+  return reliefExtrusion(outline, height, nRings, {
+    twist,
+    scaleAt,
+    relief: (angle, z) => textureAmplitude * relief(angle, z),
+  });
+}
+
+// Extrudes the outline (star-shaped around the axis) with the twist (in degrees)
+// and scaled by 'scaleAt' along the height, pushing its side outward by 'relief'
+// (in mm, at a given angle in radians and height).
+//
+// The mesh is built directly, with 'nRings' rings following the outline along
+// the height, closed by fans around the axis at the bottom & top. Unlike the
+// triangulated faces of an extrusion, the fans never fold when the outline is
+// pushed outward.
+async function reliefExtrusion(
+  outline: SimplePolygon,
   height: number,
-  outerRadius: number,
-  wallThickness: number,
-  closedBottom: boolean = true,
+  nRings: number,
+  {
+    twist = 0,
+    scaleAt = () => 1,
+    relief,
+  }: {
+    twist?: number;
+    scaleAt?: (z: number) => number;
+    relief: (angle: number, z: number) => number;
+  },
 ): Promise<Manifold> {
-  const innerRadius = Math.max(0, outerRadius - wallThickness);
+  const { Manifold, Mesh } = await ManifoldModule.get();
+  const n = outline.length;
 
-  // Create outer cylinder
-  const outer = (await circle(outerRadius)).extrude(height);
+  // The rings' vertices, followed by the bottom & top centers
+  const vertProperties = new Float32Array((nRings * n + 2) * 3);
+  for (let j = 0; j < nRings; j++) {
+    const z = (height * j) / (nRings - 1);
+    const rotation = (twist * Math.PI * z) / (180 * height);
+    const [cos, sin] = [Math.cos(rotation), Math.sin(rotation)];
+    const scale = scaleAt(z);
 
-  // Create inner cylinder (hollow part)
-  // If bottom is closed, start the inner cylinder from wallThickness height
-  // If bottom is open, start from 0 (bottom)
-  const innerHeight = closedBottom ? height - wallThickness : height;
-  const innerStartZ = closedBottom ? wallThickness : 0;
+    outline.forEach(([x, y], i) => {
+      const px = scale * (x * cos - y * sin);
+      const py = scale * (x * sin + y * cos);
+      const angle = Math.atan2(py, px);
+      const r = Math.hypot(px, py);
+      const f = r > 0 ? 1 + relief(angle, z) / r : 1;
+      vertProperties.set([f * px, f * py, z], (j * n + i) * 3);
+    });
+  }
+  const [bottom, top] = [nRings * n, nRings * n + 1];
+  vertProperties.set([0, 0, 0, 0, 0, height], bottom * 3);
 
-  const inner = (await circle(innerRadius))
-    .extrude(innerHeight)
-    .translate([0, 0, innerStartZ]);
+  const triVerts: number[] = [];
+  const vert = (j: number, i: number) => j * n + (i % n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < nRings - 1; j++) {
+      triVerts.push(vert(j, i), vert(j, i + 1), vert(j + 1, i + 1));
+      triVerts.push(vert(j, i), vert(j + 1, i + 1), vert(j + 1, i));
+    }
+    triVerts.push(bottom, vert(0, i + 1), vert(0, i));
+    triVerts.push(top, vert(nRings - 1, i), vert(nRings - 1, i + 1));
+  }
+
+  return new Manifold(
+    new Mesh({
+      numProp: 3,
+      vertProperties,
+      triVerts: new Uint32Array(triVerts),
+    }),
+  );
+}
 
-  // Subtract inner from outer to create hollow cylinder
-  return outer.subtract(inner);
+// Inserts vertices along the polygon's edges, so that no edge is longer than
+// 'length'
+function subdivide(polygon: SimplePolygon, length: number): SimplePolygon {
+  return polygon.flatMap(([ax, ay], i) => {
+    const [bx, by] = polygon[(i + 1) % polygon.length];
+    const n = Math.max(1, Math.ceil(Math.hypot(bx - ax, by - ay) / length));
+    return Array.from(
+      { length: n },
+      (_, j): Vec2 => [ax + ((bx - ax) * j) / n, ay + ((by - ay) * j) / n],
+    );
+  });
 }
+
+// A warp function that scales X & Y by a factor depending on Z
+const scaleXY =
+  (factor: (z: number) => number) =>
+  (vert: Vec3): void => {
+    const f = factor(vert[2]);
+    vert[0] *= f;
+    vert[1] *= f;
+  };
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_PARAMS,
+  MAX_HEIGHT,
+  MAX_SIDES,
+  MAX_TEXT_LENGTH,
+  MIN_PROFILE_PERCENT,
+  serializeParams,
+  validateParams,
+} from "./params";
+
+describe("validateParams", () => {
+  it("parses values given as strings (as in URLs)", () => {
+    expect(
+      validateParams({
+        height: "120",
+        closedBottom: "false",
+        section: "star",
+        profile: "1,0.8,0.6,0.8,1",
+        text: "Hello",
+      }),
+    ).toEqual({
+      height: 120,
+      closedBottom: false,
+      section: "star",
+      profile: [1, 0.8, 0.6, 0.8, 1],
+      text: "Hello",
+    });
+  });
+
+  it("keeps values that already have the correct type (as in JSON)", () => {
+    expect(
+      validateParams({ wallThickness: 2.5, spiralMode: true, twist: -45 }),
+    ).toEqual({ wallThickness: 2.5, spiralMode: true, twist: -45 });
+  });
+
+  it("accepts 1 & 0 as booleans", () => {
+    expect(validateParams({ saucer: "1", liner: "0" })).toEqual({
+      saucer: true,
+      liner: false,
+    });
+  });
+
+  it("drops unknown keys and invalid values", () => {
+    expect(
+      validateParams({
+        color: "red",
+        height: "tall",
+        outerRadius: NaN,
+        closedBottom: "maybe",
+        section: "hexagon",
+        profile: "1,1,1", // too few points
+      }),
+    ).toEqual({});
+  });
+
+  it("clamps numbers to their valid range", () => {
+    expect(validateParams({ height: "10000", profile: "0,1,1,1,2" })).toEqual({
+      height: MAX_HEIGHT,
+      profile: [MIN_PROFILE_PERCENT / 100, 1, 1, 1, 1],
+    });
+  });
+
+  it("rounds integer parameters", () => {
+    expect(validateParams({ sides: "5.6", frogHoles: 3.2 })).toEqual({
+      sides: 6,
+      frogHoles: 3,
+    });
+    expect(validateParams({ sides: "99.5" })).toEqual({ sides: MAX_SIDES });
+  });
+
+  it("keeps the text on a single line, truncated", () => {
+    expect(validateParams({ text: "two\nlines" })).toEqual({
+      text: "two lines",
+    });
+
+    const { text } = validateParams({ text: "🌸".repeat(100) });
+    expect(Array.from(text!)).toHaveLength(MAX_TEXT_LENGTH);
+  });
+});
+
+describe("serializeParams", () => {
+  it("serializes every parameter as a string", () => {
+    const record = serializeParams(DEFAULT_PARAMS);
+    expect(Object.keys(record).sort()).toEqual(
+      Object.keys(DEFAULT_PARAMS).sort(),
+    );
+    Object.values(record).forEach((value) =>
+      expect(typeof value).toBe("string"),
+    );
+  });
+
+  it("is the inverse of validateParams", () => {
+    const params = {
+      ...DEFAULT_PARAMS,
+      height: 123.5,
+      closedBottom: false,
+      profile: [1, 0.75, 0.55, 0.75, 1],
+      section: "rounded-polygon" as const,
+      text: "Flowers, for you",
+    };
+    expect(validateParams(serializeParams(params))).toEqual(params);
+    expect(validateParams(serializeParams(DEFAULT_PARAMS))).toEqual(
+      DEFAULT_PARAMS,
+    );
+  });
+});
@@ -0,0 +1,543 @@
+import type {
+  VaseParams,
+  SectionShape,
+  TextMode,
+  LidStyle,
+  FrogPattern,
+} from "./manifold";
+import type { Material } from "./estimate";
+import type { Texture } from "./texture";
+import { PROFILE_PRESETS } from "./profile";
+import { RESOLUTION_PRESETS } from "./resolution";
+
+// Default values & valid ranges of the model parameters
+
+// NOTE: all lengths are in mm
+
+export const START_HEIGHT = 50;
+export const MIN_HEIGHT = 10;
+export const MAX_HEIGHT = 200;
+
+export const START_OUTER_RADIUS = 25;
+export const MIN_OUTER_RADIUS = 5;
+export const MAX_OUTER_RADIUS = 100;
+
+export const START_WALL_THICKNESS = 3;
+export const MIN_WALL_THICKNESS = 1;
+export const MAX_WALL_THICKNESS = 20;
+
+export const START_CLOSED_BOTTOM = true;
+
+// Profile control points, as percentage of the outer radius
+export const START_PROFILE = PROFILE_PRESETS.straight;
+export const MIN_PROFILE_PERCENT = 20;
+export const MAX_PROFILE_PERCENT = 100;
+
+export const START_SECTION: SectionShape = "circle";
+
+export const START_SIDES = 6;
+export const MIN_SIDES = 3;
+export const MAX_SIDES = 16;
+
+// Star inner radius, as ratio of the outer radius
+export const START_STAR_RATIO = 0.6;
+export const MIN_STAR_RATIO = 0.2;
+export const MAX_STAR_RATIO = 0.9;
+
+export const START_CORNER_RADIUS = 5;
+export const MIN_CORNER_RADIUS = 0;
+export const MAX_CORNER_RADIUS = 30;
+
+// Twist, in degrees
+export const START_TWIST = 0;
+export const MIN_TWIST = -360;
+export const MAX_TWIST = 360;
+
+// Scale of the top, as ratio of the bottom
+export const START_SCALE_TOP = 1;
+export const MIN_SCALE_TOP = 0.25;
+export const MAX_SCALE_TOP = 2;
+
+// Spiral vase mode (solid body, sliced as a single perimeter)
+export const START_SPIRAL_MODE = false;
+
+export const START_BOTTOM_THICKNESS = 1.2;
+export const MIN_BOTTOM_THICKNESS = 0.4;
+export const MAX_BOTTOM_THICKNESS = 10;
+
+export const START_NOZZLE_WIDTH = 0.4;
+export const MIN_NOZZLE_WIDTH = 0.2;
+export const MAX_NOZZLE_WIDTH = 1.2;
+
+// Mesh resolution: max distance between the curves and the straight segments
+// approximating them (see ./resolution.ts)
+export const START_CHORD_ERROR = RESOLUTION_PRESETS.normal;
+export const MIN_CHORD_ERROR = 0.01;
+export const MAX_CHORD_ERROR = 0.5;
+
+// Drainage holes (0 means no holes)
+export const START_DRAINAGE_HOLES = 0;
+export const MIN_DRAINAGE_HOLES = 0;
+export const MAX_DRAINAGE_HOLES = 12;
+
+export const START_DRAINAGE_HOLE_DIAMETER = 6;
+export const MIN_DRAINAGE_HOLE_DIAMETER = 2;
+export const MAX_DRAINAGE_HOLE_DIAMETER = 20;
+
+export const START_DRAINAGE_RING_RADIUS = 10;
+export const MIN_DRAINAGE_RING_RADIUS = 0;
+export const MAX_DRAINAGE_RING_RADIUS = 80;
+
+export const START_SAUCER = false;
+
+export const START_SAUCER_CLEARANCE = 2;
+export const MIN_SAUCER_CLEARANCE = 0;
+export const MAX_SAUCER_CLEARANCE = 10;
+
+export const START_SAUCER_LIP_HEIGHT = 10;
+export const MIN_SAUCER_LIP_HEIGHT = 2;
+export const MAX_SAUCER_LIP_HEIGHT = 40;
+
+// Text on the outer wall (empty means no text)
+export const START_TEXT = "";
+export const MAX_TEXT_LENGTH = 32;
+
+export const START_TEXT_MODE: TextMode = "emboss";
+
+// Font size
+export const START_TEXT_SIZE = 10;
+export const MIN_TEXT_SIZE = 3;
+export const MAX_TEXT_SIZE = 50;
+
+// Depth of the embossing or engraving
+export const START_TEXT_DEPTH = 1;
+export const MIN_TEXT_DEPTH = 0.2;
+export const MAX_TEXT_DEPTH = 5;
+
+// Height of the text's center, as percentage of the vase's height
+export const START_TEXT_POSITION = 50;
+export const MIN_TEXT_POSITION = 0;
+export const MAX_TEXT_POSITION = 100;
+
+// Angle of the text's center around the vase, in degrees (0 is the front)
+export const START_TEXT_ANGLE = 0;
+export const MIN_TEXT_ANGLE = -180;
+export const MAX_TEXT_ANGLE = 180;
+
+// Texture of the outer wall
+export const START_TEXTURE: Texture = "none";
+
+// Height of the texture's relief
+export const START_TEXTURE_AMPLITUDE = 1;
+export const MIN_TEXTURE_AMPLITUDE = 0.2;
+export const MAX_TEXTURE_AMPLITUDE = 5;
+
+// Number of repeats around the vase
+export const START_TEXTURE_COUNT = 24;
+export const MIN_TEXTURE_COUNT = 3;
+export const MAX_TEXTURE_COUNT = 120;
+
+// Number of repeats along the height (waves & knurl)
+export const START_TEXTURE_ROWS = 4;
+export const MIN_TEXTURE_ROWS = 1;
+export const MAX_TEXTURE_ROWS = 50;
+
+// Rotation of the texture around the vase, in degrees
+export const START_TEXTURE_PHASE = 0;
+export const MIN_TEXTURE_PHASE = -180;
+export const MAX_TEXTURE_PHASE = 180;
+
+// Removable liner, sliding into the vase (e.g. for cachepots)
+export const START_LINER = false;
+
+// Gap between the liner and the vase's inner wall
+export const START_LINER_CLEARANCE = 1;
+export const MIN_LINER_CLEARANCE = 0.2;
+export const MAX_LINER_CLEARANCE = 10;
+
+export const START_LINER_NOTCH = true;
+
+// Lid closing the vase, e.g. to make a canister
+export const START_LID: LidStyle = "none";
+
+// How much larger than the vase's opening the plug is, for a press fit
+export const START_LID_INTERFERENCE = 0.1;
+export const MIN_LID_INTERFERENCE = 0;
+export const MAX_LID_INTERFERENCE = 1;
+
+// Gap between the cap and the vase's outer wall
+export const START_LID_CLEARANCE = 0.4;
+export const MIN_LID_CLEARANCE = 0;
+export const MAX_LID_CLEARANCE = 2;
+
+// Distance between two turns of the thread
+export const START_THREAD_PITCH = 3;
+export const MIN_THREAD_PITCH = 1.5;
+export const MAX_THREAD_PITCH = 6;
+
+// Number of turns of the thread
+export const START_THREAD_TURNS = 2;
+export const MIN_THREAD_TURNS = 1;
+export const MAX_THREAD_TURNS = 6;
+
+// Gap between the lid's thread and the vase's
+export const START_THREAD_TOLERANCE = 0.3;
+export const MIN_THREAD_TOLERANCE = 0.1;
+export const MAX_THREAD_TOLERANCE = 1;
+
+// Flower frog: insert in the vase's opening, with holes holding the stems
+export const START_FROG: FrogPattern = "none";
+
+export const START_FROG_HOLES = 12;
+export const MIN_FROG_HOLES = 1;
+export const MAX_FROG_HOLES = 60;
+
+export const START_FROG_HOLE_DIAMETER = 8;
+export const MIN_FROG_HOLE_DIAMETER = 3;
+export const MAX_FROG_HOLE_DIAMETER = 20;
+
+// Thickness of the part of the insert that goes in the opening
+export const START_FROG_THICKNESS = 4;
+export const MIN_FROG_THICKNESS = 2;
+export const MAX_FROG_THICKNESS = 10;
+
+// Printability analysis settings (not part of the model, see ./analysis.ts)
+
+// Max overhang angle printed without support, from vertical, in degrees
+export const START_OVERHANG_ANGLE = 45;
+export const MIN_OVERHANG_ANGLE = 20;
+export const MAX_OVERHANG_ANGLE = 80;
+
+// Min number of extrusion lines in a wall
+export const START_MIN_WALL_LINES = 2;
+export const MIN_MIN_WALL_LINES = 1;
+export const MAX_MIN_WALL_LINES = 4;
+
+// Estimate settings (not part of the model, see ./estimate.ts)
+
+export const START_MATERIAL: Material = "pla";
+
+// Cost of the filament, per kg
+export const START_COST_PER_KG = 20;
+export const MIN_COST_PER_KG = 0;
+export const MAX_COST_PER_KG = 200;
+
+// View settings (not part of the model)
+
+// Position of the cutaway's plane, in percent between the front (-100) and the
+// back (100) of the model (see Cutaway in ./manifold.ts)
+export const START_CUT_POSITION = 0;
+export const MIN_CUT_POSITION = -90;
+export const MAX_CUT_POSITION = 90;
+
+// Width of the exported images (PNG & SVG), in pixels
+export const START_IMAGE_WIDTH = 2048;
+export const MIN_IMAGE_WIDTH = 256;
+export const MAX_IMAGE_WIDTH = 4096;
+
+export const DEFAULT_PARAMS: VaseParams = {
+  height: START_HEIGHT,
+  outerRadius: START_OUTER_RADIUS,
+  wallThickness: START_WALL_THICKNESS,
+  closedBottom: START_CLOSED_BOTTOM,
+  profile: START_PROFILE,
+  section: START_SECTION,
+  sides: START_SIDES,
+  starRatio: START_STAR_RATIO,
+  cornerRadius: START_CORNER_RADIUS,
+  twist: START_TWIST,
+  scaleTop: START_SCALE_TOP,
+  spiralMode: START_SPIRAL_MODE,
+  bottomThickness: START_BOTTOM_THICKNESS,
+  nozzleWidth: START_NOZZLE_WIDTH,
+  chordError: START_CHORD_ERROR,
+  drainageHoles: START_DRAINAGE_HOLES,
+  drainageHoleDiameter: START_DRAINAGE_HOLE_DIAMETER,
+  drainageRingRadius: START_DRAINAGE_RING_RADIUS,
+  saucer: START_SAUCER,
+  saucerClearance: START_SAUCER_CLEARANCE,
+  saucerLipHeight: START_SAUCER_LIP_HEIGHT,
+  text: START_TEXT,
+  textMode: START_TEXT_MODE,
+  textSize: START_TEXT_SIZE,
+  textDepth: START_TEXT_DEPTH,
+  textPosition: START_TEXT_POSITION,
+  textAngle: START_TEXT_ANGLE,
+  texture: START_TEXTURE,
+  textureAmplitude: START_TEXTURE_AMPLITUDE,
+  textureCount: START_TEXTURE_COUNT,
+  textureRows: START_TEXTURE_ROWS,
+  texturePhase: START_TEXTURE_PHASE,
+  liner: START_LINER,
+  linerClearance: START_LINER_CLEARANCE,
+  linerNotch: START_LINER_NOTCH,
+  lid: START_LID,
+  lidInterference: START_LID_INTERFERENCE,
+  lidClearance: START_LID_CLEARANCE,
+  threadPitch: START_THREAD_PITCH,
+  threadTurns: START_THREAD_TURNS,
+  threadTolerance: START_THREAD_TOLERANCE,
+  frog: START_FROG,
+  frogHoles: START_FROG_HOLES,
+  frogHoleDiameter: START_FROG_HOLE_DIAMETER,
+  frogThickness: START_FROG_THICKNESS,
+};
+
+// Description of a parameter's valid values
+type BooleanSpec = { kind: "boolean" };
+type NumberSpec = { kind: "number"; min: number; max: number; integer?: true };
+type EnumSpec<T extends string> = { kind: "enum"; values: readonly T[] };
+type TextSpec = { kind: "text"; maxLength: number };
+type RatiosSpec = { kind: "ratios"; min: number; max: number; length: number };
+
+type ParamSpec<T> = [T] extends [boolean]
+  ? BooleanSpec
+  : [T] extends [number]
+    ? NumberSpec
+    : [T] extends [string]
+      ? string extends T
+        ? TextSpec
+        : EnumSpec<T>
+      : RatiosSpec;
+
+const PARAM_SPECS: { [K in keyof VaseParams]: ParamSpec<VaseParams[K]> } = {
+  height: { kind: "number", min: MIN_HEIGHT, max: MAX_HEIGHT },
+  outerRadius: { kind: "number", min: MIN_OUTER_RADIUS, max: MAX_OUTER_RADIUS },
+  wallThickness: {
+    kind: "number",
+    min: MIN_WALL_THICKNESS,
+    max: MAX_WALL_THICKNESS,
+  },
+  closedBottom: { kind: "boolean" },
+  profile: {
+    kind: "ratios",
+    min: MIN_PROFILE_PERCENT / 100,
+    max: MAX_PROFILE_PERCENT / 100,
+    length: START_PROFILE.length,
+  },
+  section: {
+    kind: "enum",
+    values: ["circle", "polygon", "star", "rounded-polygon"],
+  },
+  sides: { kind: "number", min: MIN_SIDES, max: MAX_SIDES, integer: true },
+  starRatio: { kind: "number", min: MIN_STAR_RATIO, max: MAX_STAR_RATIO },
+  cornerRadius: {
+    kind: "number",
+    min: MIN_CORNER_RADIUS,
+    max: MAX_CORNER_RADIUS,
+  },
+  twist: { kind: "number", min: MIN_TWIST, max: MAX_TWIST },
+  scaleTop: { kind: "number", min: MIN_SCALE_TOP, max: MAX_SCALE_TOP },
+  spiralMode: { kind: "boolean" },
+  bottomThickness: {
+    kind: "number",
+    min: MIN_BOTTOM_THICKNESS,
+    max: MAX_BOTTOM_THICKNESS,
+  },
+  nozzleWidth: {
+    kind: "number",
+    min: MIN_NOZZLE_WIDTH,
+    max: MAX_NOZZLE_WIDTH,
+  },
+  chordError: { kind: "number", min: MIN_CHORD_ERROR, max: MAX_CHORD_ERROR },
+  drainageHoles: {
+    kind: "number",
+    min: MIN_DRAINAGE_HOLES,
+    max: MAX_DRAINAGE_HOLES,
+    integer: true,
+  },
+  drainageHoleDiameter: {
+    kind: "number",
+    min: MIN_DRAINAGE_HOLE_DIAMETER,
+    max: MAX_DRAINAGE_HOLE_DIAMETER,
+  },
+  drainageRingRadius: {
+    kind: "number",
+    min: MIN_DRAINAGE_RING_RADIUS,
+    max: MAX_DRAINAGE_RING_RADIUS,
+  },
+  saucer: { kind: "boolean" },
+  saucerClearance: {
+    kind: "number",
+    min: MIN_SAUCER_CLEARANCE,
+    max: MAX_SAUCER_CLEARANCE,
+  },
+  saucerLipHeight: {
+    kind: "number",
+    min: MIN_SAUCER_LIP_HEIGHT,
+    max: MAX_SAUCER_LIP_HEIGHT,
+  },
+  text: { kind: "text", maxLength: MAX_TEXT_LENGTH },
+  textMode: { kind: "enum", values: ["emboss", "deboss"] },
+  textSize: { kind: "number", min: MIN_TEXT_SIZE, max: MAX_TEXT_SIZE },
+  textDepth: { kind: "number", min: MIN_TEXT_DEPTH, max: MAX_TEXT_DEPTH },
+  textPosition: {
+    kind: "number",
+    min: MIN_TEXT_POSITION,
+    max: MAX_TEXT_POSITION,
+  },
+  textAngle: { kind: "number", min: MIN_TEXT_ANGLE, max: MAX_TEXT_ANGLE },
+  texture: {
+    kind: "enum",
+    values: ["none", "ribs", "flutes", "waves", "knurl"],
+  },
+  textureAmplitude: {
+    kind: "number",
+    min: MIN_TEXTURE_AMPLITUDE,
+    max: MAX_TEXTURE_AMPLITUDE,
+  },
+  textureCount: {
+    kind: "number",
+    min: MIN_TEXTURE_COUNT,
+    max: MAX_TEXTURE_COUNT,
+    integer: true,
+  },
+  textureRows: {
+    kind: "number",
+    min: MIN_TEXTURE_ROWS,
+    max: MAX_TEXTURE_ROWS,
+  },
+  texturePhase: {
+    kind: "number",
+    min: MIN_TEXTURE_PHASE,
+    max: MAX_TEXTURE_PHASE,
+  },
+  liner: { kind: "boolean" },
+  linerClearance: {
+    kind: "number",
+    min: MIN_LINER_CLEARANCE,
+    max: MAX_LINER_CLEARANCE,
+  },
+  linerNotch: { kind: "boolean" },
+  lid: { kind: "enum", values: ["none", "plug", "cap", "threaded"] },
+  lidInterference: {
+    kind: "number",
+    min: MIN_LID_INTERFERENCE,
+    max: MAX_LID_INTERFERENCE,
+  },
+  lidClearance: {
+    kind: "number",
+    min: MIN_LID_CLEARANCE,
+    max: MAX_LID_CLEARANCE,
+  },
+  threadPitch: {
+    kind: "number",
+    min: MIN_THREAD_PITCH,
+    max: MAX_THREAD_PITCH,
+  },
+  threadTurns: {
+    kind: "number",
+    min: MIN_THREAD_TURNS,
+    max: MAX_THREAD_TURNS,
+  },
+  threadTolerance: {
+    kind: "number",
+    min: MIN_THREAD_TOLERANCE,
+    max: MAX_THREAD_TOLERANCE,
+  },
+  frog: { kind: "enum", values: ["none", "grid", "radial"] },
+  frogHoles: {
+    kind: "number",
+    min: MIN_FROG_HOLES,
+    max: MAX_FROG_HOLES,
+    integer: true,
+  },
+  frogHoleDiameter: {
+    kind: "number",
+    min: MIN_FROG_HOLE_DIAMETER,
+    max: MAX_FROG_HOLE_DIAMETER,
+  },
+  frogThickness: {
+    kind: "number",
+    min: MIN_FROG_THICKNESS,
+    max: MAX_FROG_THICKNESS,
+  },
+};
+
+// Parses a number (or a string representing a number), clamped to [min, max]
+const parseNumber = (
+  value: unknown,
+  { min, max }: { min: number; max: number },
+): number | undefined => {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) {
+    return undefined;
+  }
+
+  return Math.max(min, Math.min(n, max));
+};
+
+// Parses a single parameter value, returning undefined if the value is invalid
+function parseParam(key: keyof VaseParams, value: unknown): unknown {
+  const spec:
+    | BooleanSpec
+    | NumberSpec
+    | EnumSpec<string>
+    | TextSpec
+    | RatiosSpec = PARAM_SPECS[key];
+
+  if (spec.kind === "boolean") {
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "1") return true;
+    if (value === "false" || value === "0") return false;
+    return undefined;
+  }
+
+  if (spec.kind === "number") {
+    const n = parseNumber(value, spec);
+    return n !== undefined && spec.integer ? Math.round(n) : n;
+  }
+
+  if (spec.kind === "enum") {
+    return spec.values.find((v) => v === value);
+  }
+
+  if (spec.kind === "text") {
+    // Single line, truncated to the max length (in characters, not UTF-16 units)
+    return typeof value === "string"
+      ? Array.from(value.replace(/\s/g, " ")).slice(0, spec.maxLength).join("")
+      : undefined;
+  }
+
+  spec.kind satisfies "ratios";
+  const values = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(values) || values.length !== spec.length) {
+    return undefined;
+  }
+
+  const ratios = values.map((v) => parseNumber(v, spec));
+  return ratios.every((r) => r !== undefined) ? ratios : undefined;
+}
+
+// Validates (untrusted) parameters, e.g. from a URL or a file. Unknown keys and
+// invalid values are dropped, and numbers are clamped to their valid range.
+//
+// Values may be strings (as in URLs) or already have the correct type (as in JSON).
+export function validateParams(
+  input: Record<string, unknown>,
+): Partial<VaseParams> {
+  // NOTE: the values are checked against the specs, which can't be expressed
+  // in the types, hence the cast below
+  const params: Partial<Record<keyof VaseParams, unknown>> = {};
+
+  (Object.keys(PARAM_SPECS) as (keyof VaseParams)[]).forEach((key) => {
+    if (!(key in input)) return;
+
+    const value = parseParam(key, input[key]);
+    if (value !== undefined) {
+      params[key] = value;
+    }
+  });
+
+  return params as Partial<VaseParams>;
+}
+
+// Serializes parameters as strings (inverse of validateParams)
+export function serializeParams(params: VaseParams): Record<string, string> {
+  const record: Record<string, string> = {};
+  (Object.keys(PARAM_SPECS) as (keyof VaseParams)[]).forEach((key) => {
+    const value = params[key];
+    record[key] = Array.isArray(value) ? value.join(",") : String(value);
+  });
+  return record;
+}
@@ -0,0 +1,144 @@
+// Radius profiles, i.e. the radius of the vase as a function of its height.
+//
+// A profile is described by a few control points evenly spaced from the bottom
+// (first point) to the top (last point) of the vase. Each point is a ratio of the
+// outer radius, meaning the outer radius is the radius of the vase where the
+// ratio is 1.
+
+import type { VaseParams } from "./manifold";
+
+export const PROFILE_PRESETS = {
+  straight: [1, 1, 1, 1, 1],
+  bulb: [0.75, 1, 0.85, 0.55, 0.6],
+  tapered: [0.6, 0.7, 0.8, 0.9, 1],
+  hourglass: [1, 0.75, 0.55, 0.75, 1],
+} as const satisfies Record<string, readonly number[]>;
+
+export type ProfileShape = keyof typeof PROFILE_PRESETS | "custom";
+
+// Find the preset matching the control points, if any
+export function profileShape(profile: readonly number[]): ProfileShape {
+  const presets = Object.entries(PROFILE_PRESETS) as [
+    keyof typeof PROFILE_PRESETS,
+    readonly number[],
+  ][];
+
+  const preset = presets.find(
+    ([_, points]) =>
+      points.length === profile.length &&
+      points.every((r, i) => Math.abs(r - profile[i]) < 1e-6),
+  );
+
+  return preset === undefined ? "custom" : preset[0];
+}
+
+// Returns true if the profile is a straight wall (all ratios are equal)
+export function isStraight(profile: readonly number[]): boolean {
+  return profile.every((r) => r === profile[0]);
+}
+
+// Returns a smooth curve going through the control points. The curve is defined
+// for t in [0, 1] (0 being the bottom and 1 the top) and returns the radius ratio.
+//
+// The interpolation is a monotone cubic (Fritsch-Carlson), which does not
+// overshoot the control points; this way the outer radius remains the largest
+// radius of the vase.
+export function profileCurve(
+  profile: readonly number[],
+): (t: number) => number {
+  const n = profile.length;
+  if (n === 1) {
+    return () => profile[0];
+  }
+
+  // The distance between two control points
+  const h = 1 / (n - 1);
+
+  // Slopes of the segments between control points
+  const deltas: number[] = [];
+  for (let k = 0; k < n - 1; k++) {
+    deltas.push((profile[k + 1] - profile[k]) / h);
+  }
+
+  // Tangents at control points
+  const tangents: number[] = [deltas[0]];
+  for (let k = 1; k < n - 1; k++) {
+    const [d0, d1] = [deltas[k - 1], deltas[k]];
+    tangents.push(d0 * d1 <= 0 ? 0 : (d0 + d1) / 2);
+  }
+  tangents.push(deltas[n - 2]);
+
+  // Limit the tangents to ensure monotonicity between control points
+  for (let k = 0; k < n - 1; k++) {
+    const d = deltas[k];
+    if (d === 0) {
+      tangents[k] = 0;
+      tangents[k + 1] = 0;
+      continue;
+    }
+
+    const a = tangents[k] / d;
+    const b = tangents[k + 1] / d;
+    const norm = a * a + b * b;
+    if (norm > 9) {
+      const tau = 3 / Math.sqrt(norm);
+      tangents[k] = tau * a * d;
+      tangents[k + 1] = tau * b * d;
+    }
+  }
+
+  return (t: number) => {
+    const tt = Math.max(0, Math.min(t, 1));
+    const k = Math.min(Math.floor(tt / h), n - 2);
+
+    // Position within the segment, in [0, 1]
+    const s = (tt - k * h) / h;
+
+    // Cubic Hermite basis
+    const s2 = s * s;
+    const s3 = s2 * s;
+    const h00 = 2 * s3 - 3 * s2 + 1;
+    const h10 = s3 - 2 * s2 + s;
+    const h01 = -2 * s3 + 3 * s2;
+    const h11 = s3 - s2;
+
+    return (
+      h00 * profile[k] +
+      h10 * h * tangents[k] +
+      h01 * profile[k + 1] +
+      h11 * h * tangents[k + 1]
+    );
+  };
+}
+
+// Smallest radius of the cavity, used when the wall is thicker than the vase
+// is wide at some height
+export const MIN_CAVITY_RADIUS = 0.01;
+
+// Functions describing the radius of the vase along its height, taking the
+// profile and the top scale into account. For non-circular cross-sections,
+// this is the radius of the circle the cross-section is inscribed in.
+export function vaseRadii(params: VaseParams): {
+  // The outer radius at height z
+  radiusAt: (z: number) => number;
+  // The radius of the cavity at height z, for a given wall thickness. Where the
+  // outer wall is sloped, the horizontal distance between the outer & inner
+  // walls is increased so that the distance perpendicular to the wall is the
+  // wall thickness.
+  cavityRadiusAt: (z: number, wallThickness: number) => number;
+} {
+  const { height, outerRadius, scaleTop } = params;
+  const curve = profileCurve(params.profile);
+
+  const radiusAt = (z: number) =>
+    outerRadius * curve(z / height) * (1 + ((scaleTop - 1) * z) / height);
+
+  const eps = height / 1000;
+  const cavityRadiusAt = (z: number, wallThickness: number) => {
+    const slope = (radiusAt(z + eps) - radiusAt(z - eps)) / (2 * eps);
+    const delta = wallThickness * Math.sqrt(1 + slope * slope);
+    return Math.max(MIN_CAVITY_RADIUS, radiusAt(z) - delta);
+  };
+
+  return { radiusAt, cavityRadiusAt };
+}
@@ -0,0 +1,40 @@
+// Mesh resolution: curves (e.g. a circular section) are approximated by
+// straight segments, as many as needed for the segments to stay within the
+// max chord error (the distance between a segment and the arc it replaces).
+
+export const RESOLUTION_PRESETS = {
+  draft: 0.1,
+  normal: 0.03,
+  fine: 0.01,
+} as const satisfies Record<string, number>;
+
+export type Resolution = keyof typeof RESOLUTION_PRESETS | "custom";
+
+// Find the preset matching the chord error, if any
+export function resolution(chordError: number): Resolution {
+  const presets = Object.entries(RESOLUTION_PRESETS) as [
+    keyof typeof RESOLUTION_PRESETS,
+    number,
+  ][];
+
+  const preset = presets.find(([_, e]) => Math.abs(e - chordError) < 1e-6);
+
+  return preset === undefined ? "custom" : preset[0];
+}
+
+// Bounds on the number of segments of a full circle, so that tiny circles stay
+// round and huge ones stay affordable
+const MIN_CIRCLE_SEGMENTS = 8;
+const MAX_CIRCLE_SEGMENTS = 512;
+
+// The number of segments of a full circle of given radius, for the segments to
+// be at most 'chordError' away from the circle
+export function circleSegments(radius: number, chordError: number): number {
+  // Each segment spans an angle of 2 * acos(1 - e / r)
+  const ratio = Math.min(chordError / radius, 1);
+  const segments = Math.ceil(Math.PI / Math.acos(1 - ratio));
+  return Math.max(
+    MIN_CIRCLE_SEGMENTS,
+    Math.min(Number.isFinite(segments) ? segments : 0, MAX_CIRCLE_SEGMENTS),
+  );
+}
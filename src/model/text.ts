@@ -0,0 +1,24 @@
+import type { Vec2 } from "manifold-3d";
+import { Font, type FontData } from "three/addons/loaders/FontLoader.js";
+import helvetiker from "three/examples/fonts/helvetiker_regular.typeface.json";
+
+// Text outlines, used to emboss or deboss text on the vase's wall
+
+// The font, bundled with the app so that text works offline
+const FONT = new Font(helvetiker as unknown as FontData);
+
+// Number of segments used to approximate each curve of a glyph
+const CURVE_DIVISIONS = 6;
+
+// The outlines of the text, as one list of contours per shape of the glyphs:
+// the first contour is the shape's outline and the others are its holes (with
+// no particular orientation). The baseline is at y = 0 and the text starts at
+// x = 0. The size is the font size, in mm.
+export function textContours(text: string, size: number): Vec2[][][] {
+  return FONT.generateShapes(text, size).map((shape) => {
+    const { shape: outline, holes } = shape.extractPoints(CURVE_DIVISIONS);
+    return [outline, ...holes].map((contour) =>
+      contour.map(({ x, y }): Vec2 => [x, y]),
+    );
+  });
+}
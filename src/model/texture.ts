@@ -0,0 +1,71 @@
+import type { VaseParams } from "./manifold";
+
+// Surface textures, applied to the vase's outer wall
+
+// NOTE: the texture only ever pushes the wall outward, so that the wall is never
+// thinner than the wall thickness
+
+export type Texture = "none" | "ribs" | "flutes" | "waves" | "knurl";
+
+// Number of vertices per period of the texture (around or along the vase)
+const SAMPLES_PER_PERIOD = 8;
+
+// Max number of vertices on the textured wall, to keep the mesh manageable for
+// large vases with fine textures (the texture is then sampled more coarsely)
+const MAX_VERTICES = 100_000;
+
+// The texture's relief at the given angle (in radians) and height, between 0
+// (the untextured wall) and 1 (the full amplitude). Returns undefined if the
+// vase has no texture.
+export function textureRelief(
+  params: VaseParams,
+): ((angle: number, z: number) => number) | undefined {
+  const { height, texture, textureCount, textureRows, texturePhase } = params;
+  const phase = (texturePhase * Math.PI) / 180;
+
+  // The position in the periods around (u) & along (v) the vase, in radians
+  const u = (angle: number) => textureCount * angle + phase;
+  const v = (z: number) => (2 * Math.PI * textureRows * z) / height;
+
+  switch (texture) {
+    case "none":
+      return undefined;
+    case "ribs":
+      // Rounded ridges, covering a third of each period
+      return (angle) =>
+        Math.sqrt(Math.max(0, (Math.cos(u(angle)) - 0.5) / 0.5));
+    case "flutes":
+      // Concave (circular) grooves separated by sharp edges
+      return (angle) => 1 - Math.sqrt(1 - wrap(u(angle)) ** 2);
+    case "waves":
+      // Sine waves around and along the vase
+      return (angle, z) => (2 + Math.cos(u(angle)) + Math.cos(v(z))) / 4;
+    case "knurl":
+      // Diamonds, at the crossing of helices going opposite ways
+      return (angle, z) =>
+        Math.min(
+          1 - Math.abs(wrap(u(angle) + v(z))),
+          1 - Math.abs(wrap(u(angle) - v(z))),
+        );
+  }
+}
+
+// The position of x (in radians) within its period, between -1 and 1
+const wrap = (x: number): number => {
+  const t = (x / Math.PI + 1) % 2;
+  return (t < 0 ? t + 2 : t) - 1;
+};
+
+// The max length of the wall's edges needed to render the texture's details
+export function textureResolution(params: VaseParams): number {
+  const { height, outerRadius, scaleTop, texture } = params;
+  const { textureCount, textureRows } = params;
+
+  const circumference = 2 * Math.PI * outerRadius * Math.max(1, scaleTop);
+  const periodAround = circumference / textureCount;
+  const periodAlong =
+    texture === "waves" || texture === "knurl" ? height / textureRows : height;
+
+  const length = Math.min(periodAround, periodAlong) / SAMPLES_PER_PERIOD;
+  return Math.max(length, Math.sqrt((circumference * height) / MAX_VERTICES));
+}
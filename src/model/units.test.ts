@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  displayLength,
+  formatLength,
+  fromUnit,
+  lengthStep,
+  parseLength,
+  toUnit,
+} from "./units";
+
+describe("conversions", () => {
+  it("converts lengths from mm, rounded to the unit's decimals", () => {
+    expect(toUnit(12.345, "mm")).toBe(12.35);
+    expect(toUnit(12.345, "cm")).toBe(1.235);
+    expect(toUnit(50, "in")).toBe(1.969);
+  });
+
+  it("converts lengths to mm", () => {
+    expect(fromUnit(12.5, "mm")).toBe(12.5);
+    expect(fromUnit(1.5, "cm")).toBe(15);
+    expect(fromUnit(2, "in")).toBe(50.8);
+  });
+
+  it("rounds displayed lengths to one decimal less, unless specified", () => {
+    expect(displayLength(12.345, "mm")).toBe(12.3);
+    expect(displayLength(50, "in")).toBe(1.97);
+    expect(displayLength(50, "in", 1)).toBe(2);
+  });
+
+  it("formats lengths with their unit, without trailing zeros", () => {
+    expect(formatLength(2.5, "mm")).toBe("2.5 mm");
+    expect(formatLength(50, "cm")).toBe("5 cm");
+    expect(formatLength(50, "in")).toBe("1.97 in");
+  });
+});
+
+describe("parseLength", () => {
+  it("parses decimals, with a point or a comma", () => {
+    expect(parseLength("4.5", "mm")).toBe(4.5);
+    expect(parseLength("4,5", "cm")).toBe(45);
+    expect(parseLength(".5", "in")).toBe(12.7);
+    expect(parseLength("  12  ", "mm")).toBe(12);
+  });
+
+  it("parses fractions, with or without a whole part", () => {
+    expect(parseLength("9/2", "in")).toBe(114.3);
+    expect(parseLength("4 1/2", "in")).toBe(114.3);
+    expect(parseLength("4-1/2", "in")).toBe(114.3);
+  });
+
+  it("accepts another unit", () => {
+    expect(parseLength("12 mm", "in")).toBe(12);
+    expect(parseLength("2cm", "mm")).toBe(20);
+    expect(parseLength('1"', "mm")).toBe(25.4);
+    expect(parseLength("2 Inches", "cm")).toBe(50.8);
+  });
+
+  it("rejects anything else", () => {
+    ["", "abc", "12 ft", "1/0", "1..2", "-3", "mm"].forEach((text) =>
+      expect(parseLength(text, "mm")).toBeUndefined(),
+    );
+  });
+});
+
+describe("lengthStep", () => {
+  it("keeps steps in mm", () => {
+    expect(lengthStep(1, "mm")).toBe(1);
+    expect(lengthStep(0.1, "mm")).toBe(0.1);
+  });
+
+  it("rounds steps down to 1, 2 or 5 times a power of 10", () => {
+    expect(lengthStep(1, "cm")).toBe(0.1);
+    expect(lengthStep(1, "in")).toBe(0.02);
+    expect(lengthStep(5, "in")).toBe(0.1);
+    expect(lengthStep(0.1, "in")).toBe(0.002);
+  });
+});
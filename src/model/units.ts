@@ -0,0 +1,93 @@
+// Units of length, in which the dimensions are shown & entered. The model
+// itself is always in mm: lengths are only converted for display, input and
+// export.
+
+export const UNITS = {
+  mm: { label: "mm", size: 1, decimals: 2, name: "millimeter" },
+  cm: { label: "cm", size: 10, decimals: 3, name: "centimeter" },
+  in: { label: "in", size: 25.4, decimals: 3, name: "inch" },
+} as const satisfies Record<
+  string,
+  {
+    label: string;
+    size: number; // in mm
+    decimals: number; // number of decimals shown in inputs
+    name: string; // as in 3MF files
+  }
+>;
+
+export type Unit = keyof typeof UNITS;
+
+// The unit suffixes accepted in inputs, e.g. 4.5" or "12 mm"
+const SUFFIXES: Record<string, Unit> = {
+  mm: "mm",
+  cm: "cm",
+  in: "in",
+  inch: "in",
+  inches: "in",
+  '"': "in",
+};
+
+// The length (in mm) in the unit, rounded to the unit's decimals
+export const toUnit = (mm: number, unit: Unit): number =>
+  Number((mm / UNITS[unit].size).toFixed(UNITS[unit].decimals));
+
+// The length in the unit, in mm
+export const fromUnit = (length: number, unit: Unit): number =>
+  length * UNITS[unit].size;
+
+// The length (in mm) in the unit, rounded for display (one decimal less than
+// in inputs, unless specified)
+export const displayLength = (
+  mm: number,
+  unit: Unit,
+  decimals: number = UNITS[unit].decimals - 1,
+): number => Number((mm / UNITS[unit].size).toFixed(decimals));
+
+// The length (in mm) in the unit, without trailing zeros, e.g. "2.5 mm" or
+// "1.97 in"
+export const formatLength = (
+  mm: number,
+  unit: Unit,
+  decimals?: number,
+): string => `${displayLength(mm, unit, decimals)} ${UNITS[unit].label}`;
+
+// Parses a length entered in the unit, returning it in mm (undefined if it is
+// not a length). Decimals (with a point or a comma) and fractions are accepted,
+// e.g. "4.5", "4,5", "4 1/2" or "9/2", and so is another unit, e.g. "12 mm".
+export function parseLength(text: string, unit: Unit): number | undefined {
+  const match = text
+    .trim()
+    .toLowerCase()
+    .match(
+      /^(\d+(?:[.,]\d*)?|[.,]\d+)?(?:(?:^|[\s-]+)(\d+)\/(\d+))?\s*([a-z"]*)$/,
+    );
+  if (match === null) {
+    return undefined;
+  }
+
+  const [, number, numerator, denominator, suffix] = match;
+  if (number === undefined && numerator === undefined) {
+    return undefined;
+  }
+
+  const whole = number === undefined ? 0 : parseFloat(number.replace(",", "."));
+  const fraction =
+    numerator === undefined ? 0 : Number(numerator) / Number(denominator);
+  const suffixUnit = suffix === "" ? unit : SUFFIXES[suffix];
+  if (!Number.isFinite(fraction) || suffixUnit === undefined) {
+    return undefined;
+  }
+
+  return fromUnit(whole + fraction, suffixUnit);
+}
+
+// The step (in the unit) for a step given in mm: the largest of 1, 2 or 5
+// times a power of 10 that is not larger, e.g. 0.1 cm for 1 mm or 0.02 in
+// for 1 mm
+export function lengthStep(mm: number, unit: Unit): number {
+  const step = mm / UNITS[unit].size;
+  const power = 10 ** Math.floor(Math.log10(step) + 1e-9);
+  const multiple = [5, 2, 1].find((m) => m * power <= step * (1 + 1e-9)) ?? 1;
+  return Number((multiple * power).toPrecision(1));
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_PARAMS } from "./model/params";
+import { paramsFromUrl, urlWithParams } from "./permalink";
+
+describe("permalinks", () => {
+  it("reads the parameters from the query string", () => {
+    const url = new URL(
+      "https://example.com/?height=80&section=polygon&sides=8&unknown=1",
+    );
+    expect(paramsFromUrl(url)).toEqual({
+      height: 80,
+      section: "polygon",
+      sides: 8,
+    });
+  });
+
+  it("reads nothing from a URL without parameters", () => {
+    expect(paramsFromUrl(new URL("https://example.com/"))).toEqual({});
+  });
+
+  it("round-trips the parameters through the URL", () => {
+    const params = {
+      ...DEFAULT_PARAMS,
+      outerRadius: 42.5,
+      profile: [1, 0.9, 0.7, 0.9, 1],
+      text: "A & B = 100%",
+    };
+    const url = urlWithParams(new URL("https://example.com/"), params);
+    expect(paramsFromUrl(url)).toEqual(params);
+  });
+
+  it("keeps the rest of the URL", () => {
+    const url = urlWithParams(
+      new URL("https://example.com/app/?height=10&lang=sv#preview"),
+      DEFAULT_PARAMS,
+    );
+    expect(url.pathname).toBe("/app/");
+    expect(url.hash).toBe("#preview");
+    expect(url.searchParams.get("lang")).toBe("sv");
+    expect(url.searchParams.get("height")).toBe(`${DEFAULT_PARAMS.height}`);
+  });
+
+  it("doesn't modify the given URL", () => {
+    const url = new URL("https://example.com/");
+    urlWithParams(url, DEFAULT_PARAMS);
+    expect(url.search).toBe("");
+  });
+});
@@ -0,0 +1,19 @@
+import type { VaseParams } from "./model/manifold";
+import { validateParams, serializeParams } from "./model/params";
+
+// Permalinks: the model parameters are stored in the URL's query string, e.g.
+// "?height=50&outerRadius=25&...&profile=1,1,1,1,1"
+
+// Reads (and validates) the parameters found in the URL
+export function paramsFromUrl(url: URL): Partial<VaseParams> {
+  return validateParams(Object.fromEntries(url.searchParams));
+}
+
+// Returns a copy of the URL with the parameters set in the query string
+export function urlWithParams(url: URL, params: VaseParams): URL {
+  const newUrl = new URL(url);
+  Object.entries(serializeParams(params)).forEach(([key, value]) =>
+    newUrl.searchParams.set(key, value),
+  );
+  return newUrl;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import { DEFAULT_PARAMS, MAX_HEIGHT } from "./model/params";
+import {
+  parseLibrary,
+  serializeLibrary,
+  STARTER_PRESETS,
+  uniqueName,
+  type Preset,
+} from "./presets";
+
+const THUMBNAIL = "data:image/png;base64,iVBORw0KGgo=";
+
+describe("preset libraries", () => {
+  it("round-trips the presets", () => {
+    const presets: Preset[] = [
+      ...STARTER_PRESETS,
+      {
+        name: "Mine",
+        params: { ...DEFAULT_PARAMS, height: 75 },
+        thumbnail: THUMBNAIL,
+      },
+    ];
+    expect(parseLibrary(serializeLibrary(presets))).toEqual(presets);
+  });
+
+  it("sets missing parameters to their default, and validates the others", () => {
+    const json = JSON.stringify({
+      version: 1,
+      presets: [{ name: "Old", params: { height: 1000, color: "red" } }],
+    });
+    expect(parseLibrary(json)).toEqual([
+      {
+        name: "Old",
+        params: { ...DEFAULT_PARAMS, height: MAX_HEIGHT },
+        thumbnail: undefined,
+      },
+    ]);
+  });
+
+  it("drops thumbnails that aren't images", () => {
+    const json = JSON.stringify({
+      version: 1,
+      presets: [
+        { name: "A", params: {}, thumbnail: "javascript:alert(1)" },
+        { name: "B", params: {}, thumbnail: 42 },
+      ],
+    });
+    expect(parseLibrary(json).map(({ thumbnail }) => thumbnail)).toEqual([
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("rejects files that aren't preset libraries", () => {
+    expect(() => parseLibrary("not json")).toThrow();
+    expect(() => parseLibrary("[]")).toThrow("Not a preset library");
+    expect(() =>
+      parseLibrary(JSON.stringify({ version: 2, presets: [] })),
+    ).toThrow("Not a preset library");
+    expect(() => parseLibrary(JSON.stringify({ version: 1 }))).toThrow(
+      "Not a preset library",
+    );
+  });
+
+  it("rejects invalid presets, by position", () => {
+    const json = JSON.stringify({
+      version: 1,
+      presets: [
+        { name: "Fine", params: {} },
+        { name: 7, params: {} },
+      ],
+    });
+    expect(() => parseLibrary(json)).toThrow("Invalid preset at position 2");
+  });
+});
+
+describe("uniqueName", () => {
+  const presets = (...names: string[]): Preset[] =>
+    names.map((name) => ({ name, params: DEFAULT_PARAMS }));
+
+  it("keeps names that aren't taken", () => {
+    expect(uniqueName("Bowl", presets("Vase"))).toBe("Bowl");
+  });
+
+  it("numbers names that are taken", () => {
+    expect(uniqueName("Bowl", presets("Bowl"))).toBe("Bowl (2)");
+    expect(uniqueName("Bowl", presets("Bowl", "Bowl (2)"))).toBe("Bowl (3)");
+  });
+});
@@ -0,0 +1,128 @@
+import type { VaseParams } from "./model/manifold";
+import { DEFAULT_PARAMS, validateParams } from "./model/params";
+import { PROFILE_PRESETS } from "./model/profile";
+
+// Presets: named designs (model parameters), saved in the browser's local
+// storage and exchanged with other people as JSON files
+
+export type Preset = {
+  name: string;
+  params: VaseParams;
+  thumbnail?: string; // rendering of the design, as a data URL
+};
+
+// Designs bundled with the app, to get started
+export const STARTER_PRESETS: readonly Preset[] = [
+  {
+    name: "Bud Vase",
+    params: {
+      ...DEFAULT_PARAMS,
+      height: 120,
+      outerRadius: 22,
+      wallThickness: 2,
+      profile: [1, 0.95, 0.55, 0.3, 0.4],
+    },
+  },
+  {
+    name: "Tall Stem Vase",
+    params: {
+      ...DEFAULT_PARAMS,
+      height: 200,
+      outerRadius: 30,
+      wallThickness: 2,
+      profile: PROFILE_PRESETS.hourglass,
+      section: "rounded-polygon",
+      sides: 8,
+      cornerRadius: 5,
+      twist: 45,
+    },
+  },
+  {
+    name: "Wide Bowl",
+    params: {
+      ...DEFAULT_PARAMS,
+      height: 50,
+      outerRadius: 90,
+      wallThickness: 2.5,
+      profile: [0.6, 0.85, 0.95, 1, 1],
+      texture: "flutes",
+      textureAmplitude: 1.5,
+      textureCount: 48,
+    },
+  },
+];
+
+// Where the saved presets are kept
+const STORAGE_KEY = "skapa-presets";
+
+// Version of the library's JSON format
+const LIBRARY_VERSION = 1;
+
+// Returns the saved presets (none if the storage is unavailable or corrupted)
+export function loadLibrary(): Preset[] {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json === null ? [] : parseLibrary(json);
+  } catch (e) {
+    console.warn("Could not load the saved presets", e);
+    return [];
+  }
+}
+
+// Saves the presets, throwing if they can't be stored (e.g. storage is full)
+export function saveLibrary(presets: Preset[]) {
+  localStorage.setItem(STORAGE_KEY, serializeLibrary(presets));
+}
+
+// Serializes the presets, e.g. to export them as a file
+export function serializeLibrary(presets: Preset[]): string {
+  return JSON.stringify({ version: LIBRARY_VERSION, presets }, null, 2);
+}
+
+// Parses (and validates) presets serialized with serializeLibrary, throwing if
+// the library is invalid. Parameters missing from a preset (e.g. added after it
+// was saved) are set to their default.
+export function parseLibrary(json: string): Preset[] {
+  const library: unknown = JSON.parse(json);
+  if (
+    !isRecord(library) ||
+    library.version !== LIBRARY_VERSION ||
+    !Array.isArray(library.presets)
+  ) {
+    throw new Error("Not a preset library");
+  }
+
+  return library.presets.map((preset: unknown, i): Preset => {
+    if (
+      !isRecord(preset) ||
+      typeof preset.name !== "string" ||
+      !isRecord(preset.params)
+    ) {
+      throw new Error(`Invalid preset at position ${i + 1}`);
+    }
+
+    return {
+      name: preset.name,
+      params: { ...DEFAULT_PARAMS, ...validateParams(preset.params) },
+      thumbnail:
+        typeof preset.thumbnail === "string" &&
+        preset.thumbnail.startsWith("data:image/")
+          ? preset.thumbnail
+          : undefined,
+    };
+  });
+}
+
+// Returns the name, suffixed with a number if a preset already has that name,
+// e.g. "Bowl (2)"
+export function uniqueName(name: string, presets: Preset[]): string {
+  const taken = new Set(presets.map((preset) => preset.name));
+  let unique = name;
+  for (let i = 2; taken.has(unique); i++) {
+    unique = `${name} (${i})`;
+  }
+  return unique;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
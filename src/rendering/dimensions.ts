@@ -0,0 +1,168 @@
+import * as THREE from "three";
+
+// Dimension annotations (e.g. the height of the model), drawn on top of the
+// rendering like in assembly manuals. The annotations are placed in world
+// coordinates and drawn in an SVG element covering the canvas, so that the
+// lines & labels keep the same (CSS) size whatever the size of the canvas.
+
+// A distance between two points, measured along a dimension line (e.g. off to
+// the side of the model) joined to the points by extension lines
+export type LinearDimension = {
+  kind: "linear";
+  from: THREE.Vector3;
+  to: THREE.Vector3;
+  line: [THREE.Vector3, THREE.Vector3]; // the ends of the dimension line
+  label: string;
+};
+
+// A label pointing at a point of the model
+export type Callout = {
+  kind: "callout";
+  at: THREE.Vector3;
+  label: string;
+};
+
+export type Dimension = LinearDimension | Callout;
+
+// A point on the canvas, in CSS pixels
+type Point = [number, number];
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Length of the arrow heads, in CSS pixels
+const ARROW_LENGTH = 8;
+
+// How far the extension lines go past the dimension line, in CSS pixels
+const EXTENSION_OVERSHOOT = 5;
+
+// Distance between a dimension line and its label, in CSS pixels
+const LABEL_GAP = 6;
+
+// Where callout labels are, relative to the point, in CSS pixels
+const CALLOUT_OFFSET: Point = [36, -36];
+
+export class DimensionOverlay {
+  public svg: SVGSVGElement;
+
+  constructor(private canvas: HTMLCanvasElement) {
+    this.svg = document.createElementNS(SVG_NS, "svg");
+    this.svg.classList.add("dimensions");
+    canvas.after(this.svg);
+  }
+
+  // Draws the dimensions as seen through the camera (replacing the previous
+  // ones)
+  draw(camera: THREE.Camera, dimensions: Dimension[]) {
+    const width = this.canvas.clientWidth;
+    const height = this.canvas.clientHeight;
+    this.svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+
+    camera.updateMatrixWorld();
+    const project = (point: THREE.Vector3): Point => {
+      const { x, y } = point.clone().project(camera);
+      return [((x + 1) / 2) * width, ((1 - y) / 2) * height];
+    };
+
+    this.svg.replaceChildren(
+      ...dimensions.flatMap((dimension) =>
+        dimension.kind === "linear"
+          ? drawLinear(dimension, project)
+          : drawCallout(dimension, project),
+      ),
+    );
+  }
+}
+
+function drawLinear(
+  { from, to, line, label }: LinearDimension,
+  project: (point: THREE.Vector3) => Point,
+): SVGElement[] {
+  const [a, b] = [project(from), project(to)];
+  const [start, end] = line.map(project);
+
+  // The extension lines, going a bit past the dimension line
+  const extension = (point: Point, end: Point) => {
+    const direction = normalize(sub(end, point));
+    return svgLine(point, add(end, scale(direction, EXTENSION_OVERSHOOT)));
+  };
+
+  // The label is next to the middle of the line, on the side away from the
+  // measured points
+  const along = normalize(sub(end, start));
+  const across: Point = [-along[1], along[0]];
+  const middle = scale(add(start, end), 0.5);
+  const side = dot(sub(middle, scale(add(a, b), 0.5)), across) < 0 ? -1 : 1;
+  const normal = scale(across, side);
+
+  return [
+    extension(a, start),
+    extension(b, end),
+    svgLine(start, end),
+    arrowHead(start, along),
+    arrowHead(end, scale(along, -1)),
+    svgText(add(middle, scale(normal, LABEL_GAP)), normal, label),
+  ];
+}
+
+function drawCallout(
+  { at, label }: Callout,
+  project: (point: THREE.Vector3) => Point,
+): SVGElement[] {
+  const point = project(at);
+  const elbow = add(point, CALLOUT_OFFSET);
+  const marker = document.createElementNS(SVG_NS, "circle");
+  marker.setAttribute("cx", String(point[0]));
+  marker.setAttribute("cy", String(point[1]));
+  marker.setAttribute("r", "2.5");
+
+  return [
+    svgLine(point, elbow),
+    marker,
+    svgText(add(elbow, [LABEL_GAP / 2, 0]), [1, 0], label),
+  ];
+}
+
+function svgLine([x1, y1]: Point, [x2, y2]: Point): SVGElement {
+  const line = document.createElementNS(SVG_NS, "line");
+  line.setAttribute("x1", String(x1));
+  line.setAttribute("y1", String(y1));
+  line.setAttribute("x2", String(x2));
+  line.setAttribute("y2", String(y2));
+  return line;
+}
+
+// An arrow head with its tip at the point, pointing against the direction
+function arrowHead(tip: Point, direction: Point): SVGElement {
+  const back = add(tip, scale(direction, ARROW_LENGTH));
+  const side = scale([-direction[1], direction[0]], ARROW_LENGTH / 3);
+  const arrow = document.createElementNS(SVG_NS, "polygon");
+  arrow.setAttribute(
+    "points",
+    [tip, add(back, side), sub(back, side)].map((p) => p.join(",")).join(" "),
+  );
+  return arrow;
+}
+
+// A label next to the point, on the side the normal points to
+function svgText([x, y]: Point, [nx, ny]: Point, content: string): SVGElement {
+  const text = document.createElementNS(SVG_NS, "text");
+  text.setAttribute("x", String(x));
+  text.setAttribute("y", String(y));
+  const anchor =
+    Math.abs(nx) < Math.abs(ny) ? "middle" : nx < 0 ? "end" : "start";
+  const baseline =
+    Math.abs(ny) < Math.abs(nx) ? "middle" : ny < 0 ? "auto" : "hanging";
+  text.setAttribute("text-anchor", anchor);
+  text.setAttribute("dominant-baseline", baseline);
+  text.textContent = content;
+  return text;
+}
+
+const add = ([ax, ay]: Point, [bx, by]: Point): Point => [ax + bx, ay + by];
+const sub = ([ax, ay]: Point, [bx, by]: Point): Point => [ax - bx, ay - by];
+const scale = ([x, y]: Point, s: number): Point => [x * s, y * s];
+const dot = ([ax, ay]: Point, [bx, by]: Point): number => ax * bx + ay * by;
+const normalize = (p: Point): Point => {
+  const length = Math.hypot(p[0], p[1]);
+  return length === 0 ? [0, 0] : scale(p, 1 / length);
+};
@@ -0,0 +1,280 @@
+import * as THREE from "three";
+
+// Line drawings of a mesh, as vector (SVG) images: the silhouette and the
+// feature edges (where the surface folds sharply, e.g. the corners of a
+// polygonal section or the rim) as seen through an orthographic camera, with
+// the hidden lines removed.
+//
+// The edges are found from the mesh's triangles; whether (parts of) the edges
+// are hidden is found by rendering the depth of the scene and comparing the
+// depth of points along the edges.
+
+// Min angle between the faces of a feature edge, in degrees
+const FEATURE_ANGLE = 30;
+
+// Largest side of the depth map, in pixels
+const DEPTH_MAP_SIZE = 2048;
+
+// How much farther than the rendered depth a point can be and still be visible
+// (depth is in [0, 1] between the near & far planes)
+const DEPTH_TOLERANCE = 1e-3;
+
+// Distance between vertices that are merged (numerical precision)
+const WELD_PRECISION = 1e-4;
+
+// A point on the image, in pixels (origin at the top left)
+type Point = [number, number];
+
+export function lineDrawing(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.OrthographicCamera,
+  mesh: THREE.Mesh,
+  {
+    width,
+    height,
+    strokeWidth,
+  }: { width: number; height: number; strokeWidth: number },
+): string {
+  mesh.updateMatrixWorld();
+  camera.updateMatrixWorld();
+
+  const depth = depthMap(renderer, scene, camera, [width, height]);
+  const positions = mesh.geometry.getAttribute("position");
+
+  // The vertices in world coordinates, with the triangles' corners merged (so
+  // that the triangles sharing an edge can be found)
+  const vertices: THREE.Vector3[] = [];
+  const vertexIndices = new Map<string, number>();
+  const triangles: [number, number, number][] = [];
+  for (let i = 0; i < positions.count; i += 3) {
+    const triangle = [i, i + 1, i + 2].map((j) => {
+      const v = new THREE.Vector3()
+        .fromBufferAttribute(positions, j)
+        .applyMatrix4(mesh.matrixWorld);
+      const key = [v.x, v.y, v.z]
+        .map((c) => Math.round(c / WELD_PRECISION))
+        .join(",");
+      let index = vertexIndices.get(key);
+      if (index === undefined) {
+        index = vertices.length;
+        vertices.push(v);
+        vertexIndices.set(key, index);
+      }
+      return index;
+    });
+    triangles.push(triangle as [number, number, number]);
+  }
+
+  // The triangles on each edge, by (sorted) vertex indices
+  const edges = new Map<number, number[]>();
+  const edgeKey = (a: number, b: number) =>
+    Math.min(a, b) * vertices.length + Math.max(a, b);
+  triangles.forEach(([a, b, c], t) => {
+    for (const [u, v] of [
+      [a, b],
+      [b, c],
+      [c, a],
+    ]) {
+      const key = edgeKey(u, v);
+      edges.set(key, [...(edges.get(key) ?? []), t]);
+    }
+  });
+
+  const normals = triangles.map(([a, b, c]) =>
+    new THREE.Triangle(vertices[a], vertices[b], vertices[c]).getNormal(
+      new THREE.Vector3(),
+    ),
+  );
+  const view = camera.getWorldDirection(new THREE.Vector3());
+  const facing = normals.map((n) => n.dot(view) < 0);
+  const minCos = Math.cos((FEATURE_ANGLE * Math.PI) / 180);
+
+  // The drawn edges: the silhouette (between faces facing the camera & faces
+  // facing away), the feature edges facing the camera and the borders
+  const segments: [Point, Point][] = [];
+  for (const [key, faces] of edges) {
+    const [a, b] = [Math.floor(key / vertices.length), key % vertices.length];
+    const drawn =
+      faces.length !== 2
+        ? faces.some((t) => facing[t])
+        : facing[faces[0]] !== facing[faces[1]] ||
+          (facing[faces[0]] &&
+            normals[faces[0]].dot(normals[faces[1]]) < minCos);
+    if (drawn) {
+      segments.push(
+        ...visibleParts(vertices[a], vertices[b], camera, depth, [
+          width,
+          height,
+        ]),
+      );
+    }
+  }
+
+  const paths = chain(segments).map(
+    (points) =>
+      "M" + points.map(([x, y]) => `${round(x)},${round(y)}`).join("L"),
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<path d="${paths.join("")}" fill="none" stroke="black" stroke-width="${round(strokeWidth)}" stroke-linecap="round" stroke-linejoin="round"/>`,
+    `</svg>`,
+  ].join("\n");
+}
+
+// The depth of the scene as seen through the camera, in [0, 1] (1 where
+// nothing is rendered), sampled over the image
+type DepthMap = { width: number; height: number; depth: Float32Array };
+
+function depthMap(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  [imageWidth, imageHeight]: [number, number],
+): DepthMap {
+  const scale = Math.min(1, DEPTH_MAP_SIZE / Math.max(imageWidth, imageHeight));
+  const width = Math.max(1, Math.round(imageWidth * scale));
+  const height = Math.max(1, Math.round(imageHeight * scale));
+
+  const target = new THREE.WebGLRenderTarget(width, height);
+  const material = new THREE.MeshDepthMaterial({
+    depthPacking: THREE.RGBADepthPacking,
+  });
+
+  const oldMat = scene.overrideMaterial;
+  const oldClearColor = renderer.getClearColor(new THREE.Color());
+  const oldClearAlpha = renderer.getClearAlpha();
+  const oldTarget = renderer.getRenderTarget();
+
+  // Depth 1 packs to white
+  scene.overrideMaterial = material;
+  renderer.setClearColor(0xffffff, 1);
+  renderer.setRenderTarget(target);
+  renderer.clear();
+  renderer.render(scene, camera);
+
+  const pixels = new Uint8Array(width * height * 4);
+  renderer.readRenderTargetPixels(target, 0, 0, width, height, pixels);
+
+  scene.overrideMaterial = oldMat;
+  renderer.setClearColor(oldClearColor, oldClearAlpha);
+  renderer.setRenderTarget(oldTarget);
+  target.dispose();
+  material.dispose();
+
+  // Unpack the depth (see packDepthToRGBA in three's shaders)
+  const depth = new Float32Array(width * height);
+  for (let i = 0; i < depth.length; i++) {
+    const [r, g, b, a] = pixels.subarray(i * 4, i * 4 + 4);
+    depth[i] =
+      (255 / 256) * (r / 255 + g / 255 / 256 + b / 255 / 256 ** 2) +
+      a / 255 / 256 ** 3;
+  }
+
+  return { width, height, depth };
+}
+
+// The parts of the edge (between two points in world coordinates) that are
+// not hidden, as segments on the image
+function visibleParts(
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+  camera: THREE.Camera,
+  { width, height, depth }: DepthMap,
+  [imageWidth, imageHeight]: [number, number],
+): [Point, Point][] {
+  // Points on the image (in pixels) and their depth in [0, 1]
+  const project = (point: THREE.Vector3): [number, number, number] => {
+    const { x, y, z } = point.clone().project(camera);
+    return [
+      ((x + 1) / 2) * imageWidth,
+      ((1 - y) / 2) * imageHeight,
+      (z + 1) / 2,
+    ];
+  };
+  const [a, b] = [project(from), project(to)];
+
+  // Whether the point is in front of the rendered scene. The neighbouring
+  // pixels are considered too, since the edge is where the depth changes.
+  const [sx, sy] = [width / imageWidth, height / imageHeight];
+  const visible = ([x, y, z]: [number, number, number]) => {
+    const [px, py] = [Math.floor(x * sx), Math.floor((imageHeight - y) * sy)];
+    let farthest = 0;
+    for (let i = px - 1; i <= px + 1; i++) {
+      for (let j = py - 1; j <= py + 1; j++) {
+        const inside = 0 <= i && i < width && 0 <= j && j < height;
+        farthest = Math.max(farthest, inside ? depth[j * width + i] : 1);
+      }
+    }
+    return z <= farthest + DEPTH_TOLERANCE;
+  };
+
+  // Sample the edge about once per pixel of the depth map
+  const length = Math.hypot((b[0] - a[0]) * sx, (b[1] - a[1]) * sy);
+  const n = Math.max(1, Math.ceil(length));
+  const samples = Array.from({ length: n + 1 }, (_, i) => {
+    const t = i / n;
+    return a.map((c, k) => c + (b[k] - c) * t) as [number, number, number];
+  });
+
+  // The runs of visible samples
+  const parts: [Point, Point][] = [];
+  let start: Point | undefined;
+  samples.forEach((sample, i) => {
+    const point: Point = [sample[0], sample[1]];
+    if (visible(sample)) {
+      start ??= point;
+      if (i === n) {
+        parts.push([start, point]);
+      }
+    } else if (start !== undefined) {
+      const last = samples[i - 1];
+      parts.push([start, [last[0], last[1]]]);
+      start = undefined;
+    }
+  });
+
+  return parts.filter(([p, q]) => p[0] !== q[0] || p[1] !== q[1]);
+}
+
+// Joins the segments sharing ends into polylines (for smaller files)
+function chain(segments: [Point, Point][]): Point[][] {
+  const key = ([x, y]: Point) => `${round(x)},${round(y)}`;
+
+  // The segments by their ends
+  const byEnd = new Map<string, number[]>();
+  segments.forEach(([p, q], i) => {
+    for (const end of [p, q]) {
+      byEnd.set(key(end), [...(byEnd.get(key(end)) ?? []), i]);
+    }
+  });
+
+  const used = new Array<boolean>(segments.length).fill(false);
+
+  // Follows unused segments from the point, returning the points reached
+  const follow = (point: Point): Point[] => {
+    const points: Point[] = [];
+    for (;;) {
+      const next = (byEnd.get(key(point)) ?? []).find((i) => !used[i]);
+      if (next === undefined) {
+        return points;
+      }
+      used[next] = true;
+      const [p, q] = segments[next];
+      point = key(p) === key(point) ? q : p;
+      points.push(point);
+    }
+  };
+
+  const polylines: Point[][] = [];
+  segments.forEach(([p, q], i) => {
+    if (used[i]) return;
+    used[i] = true;
+    polylines.push([...follow(p).reverse(), p, q, ...follow(q)]);
+  });
+
+  return polylines;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
@@ -0,0 +1,16 @@
+// Fragment shader that draws hatching: diagonal lines, evenly spaced on the
+// screen (whatever the orientation of the surface)
+
+uniform float spacing; // distance between two lines, in pixels
+uniform float width; // width of the lines, in pixels
+
+void main() {
+    // The lines go along x + y = constant, so the distance between two lines
+    // (and the width of a line) is scaled by sqrt(2) along x + y
+    float d = mod(gl_FragCoord.x + gl_FragCoord.y, spacing * sqrt(2.));
+    if (d > width * sqrt(2.)) {
+        discard;
+    }
+
+    gl_FragColor = vec4(vec3(0.), 1.);
+}
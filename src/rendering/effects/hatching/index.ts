@@ -0,0 +1,28 @@
+import * as THREE from "three";
+import vertexShader from "./vert.glsl?raw";
+import fragmentShader from "./frag.glsl?raw";
+
+// Distance between the lines & width of the lines, in CSS pixels
+const SPACING = 6;
+const WIDTH = 1;
+
+/// A material drawing black hatching (e.g. on the faces of a cut), meant for
+/// the overlay layer so that the lines are drawn on top of the outlines
+export class HatchingMaterial extends THREE.ShaderMaterial {
+  constructor() {
+    super({
+      name: "hatching shader",
+      uniforms: {
+        spacing: { value: SPACING * window.devicePixelRatio },
+        width: { value: WIDTH * window.devicePixelRatio },
+      },
+      vertexShader,
+      fragmentShader,
+      side: THREE.DoubleSide,
+      // Draw in front of the model's faces the hatching lies on
+      polygonOffset: true,
+      polygonOffsetFactor: -1,
+      polygonOffsetUnits: -4,
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import * as THREE from "three";
+import { Pass } from "three/addons/postprocessing/Pass.js";
+
+// The layer of objects rendered by the OverlayPass (and not by the other passes)
+export const OVERLAY_LAYER = 1;
+
+/// A rendering pass that draws the objects of the overlay layer (e.g. highlights)
+/// on top of the previous passes. The overlay is hidden where the rest of the
+/// scene is in front of it.
+export class OverlayPass extends Pass {
+  // Only writes to the depth buffer
+  private depthMaterial = new THREE.MeshBasicMaterial({ colorWrite: false });
+
+  constructor(
+    private scene: THREE.Scene,
+    private camera: THREE.Camera,
+  ) {
+    super();
+    this.needsSwap = false; // draws on top of the read buffer
+  }
+
+  render(
+    renderer: THREE.WebGLRenderer,
+    _writeBuffer: THREE.WebGLRenderTarget,
+    readBuffer: THREE.WebGLRenderTarget,
+  ) {
+    const autoClear = renderer.autoClear;
+    renderer.autoClear = false;
+    renderer.setRenderTarget(readBuffer);
+    renderer.clearDepth();
+
+    // Render the scene's depth, so that the overlay can be occluded
+    const oldMat = this.scene.overrideMaterial;
+    this.scene.overrideMaterial = this.depthMaterial;
+    renderer.render(this.scene, this.camera);
+    this.scene.overrideMaterial = oldMat;
+
+    // Render the overlay objects only
+    const layers = this.camera.layers.mask;
+    this.camera.layers.set(OVERLAY_LAYER);
+    renderer.render(this.scene, this.camera);
+    this.camera.layers.mask = layers;
+
+    renderer.autoClear = autoClear;
+  }
+
+  dispose() {
+    this.depthMaterial.dispose();
+  }
+}
@@ -4,7 +4,17 @@ import { EffectComposer } from "three/addons/postprocessing/EffectComposer.js";
 import { RenderOutlinePass } from "./effects/outline";
 import { ThickenPass } from "./effects/thicken";
 import { FXAAPass } from "./effects/antialiasing";
+import { OverlayPass } from "./effects/overlay";
 import { OutputPass } from "three/addons/postprocessing/OutputPass.js";
+import { lineDrawing } from "./drawing";
+import { DEFAULT_VIEW, type View } from "./views";
+
+// Margin around the mesh in exported images, as a ratio of the mesh's size
+const IMAGE_MARGIN = 0.05;
+
+// Distance from the camera to the origin. The camera is orthographic, so this
+// doesn't change the image (near & far are set to fit the mesh).
+const CAMERA_DISTANCE = 300;
 
 export class Renderer {
   public camera: THREE.OrthographicCamera;
@@ -21,6 +31,12 @@ export class Renderer {
 
   public thickenPass: ThickenPass;
 
+  // The thickness of the outline on the canvas, in device pixels
+  private outlineThickness = 0;
+
+  // How the camera looks at the mesh (see setView)
+  private view: View = DEFAULT_VIEW;
+
   /* Get the pixel color at position (input should be element's offsetX/Y coords) */
   getCanvasPixelColor(pos: [number, number]): [number, number, number, number] {
     const rt = this.composer.writeBuffer;
@@ -43,12 +59,7 @@ export class Renderer {
 
     // Setup camera on front wall, looking at the back wall
     this.camera = new THREE.OrthographicCamera();
-
-    this.camera.position.x = 0;
-    this.camera.position.y = 0;
-    this.camera.position.z = 230;
-
-    this.camera.lookAt(300, 300, 0);
+    this.setView(DEFAULT_VIEW);
 
     this.scene.add(this.mesh);
 
@@ -78,6 +89,10 @@ export class Renderer {
     this.thickenPass = thickenPass;
     this.composer.addPass(thickenPass);
 
+    // Highlights (e.g. printability issues) are drawn on top of the outlines
+    const overlayPass = new OverlayPass(this.scene, this.camera);
+    this.composer.addPass(overlayPass);
+
     // By default, EffectComposer has an implicit rendering pass at the end.
     // However here we perform the OutputPass explicitly so that we can
     // add an FXAA pass _after_.
@@ -117,6 +132,23 @@ export class Renderer {
     return true;
   }
 
+  // Points the camera at the origin, from the view's direction. The view's
+  // zoom & pan, and the framing for the new direction, are applied by the next
+  // centerCameraAround.
+  setView(view: View) {
+    this.view = view;
+
+    const { azimuth, elevation } = view;
+    const direction = new THREE.Vector3(
+      Math.cos(azimuth) * Math.cos(elevation),
+      Math.sin(azimuth) * Math.cos(elevation),
+      -Math.sin(elevation),
+    );
+    this.camera.position.copy(direction).multiplyScalar(-CAMERA_DISTANCE);
+    this.camera.lookAt(0, 0, 0);
+    this.camera.updateMatrixWorld();
+  }
+
   centerCameraAround(target: THREE.Mesh, mat: THREE.Matrix4) {
     const geometry = target.geometry;
     const geometryVerticies = geometry.getAttribute("position");
@@ -185,6 +217,19 @@ export class Renderer {
       this.camera.right = left + width + width * overflowX;
     }
 
+    // Zoom in (around the center of the canvas) & pan the framed view
+    const { zoom, pan } = this.view;
+    const viewWidth = (this.camera.right - this.camera.left) / zoom;
+    const viewHeight = (this.camera.top - this.camera.bottom) / zoom;
+    const centerX =
+      (this.camera.left + this.camera.right) / 2 - pan[0] * viewWidth;
+    const centerY =
+      (this.camera.bottom + this.camera.top) / 2 - pan[1] * viewHeight;
+    this.camera.left = centerX - viewWidth / 2;
+    this.camera.right = centerX + viewWidth / 2;
+    this.camera.bottom = centerY - viewHeight / 2;
+    this.camera.top = centerY + viewHeight / 2;
+
     this.camera.near = near;
     this.camera.far = far;
 
@@ -194,12 +239,172 @@ export class Renderer {
     const height = top - bottom;
     const maxDim = Math.sqrt(width * width + height * height);
     // The camera was moved/updated, so recompute the thickness of the outline
-    this.thickenPass.setThickness((150 * window.devicePixelRatio) / maxDim);
+    // (which grows with the mesh when zoomed in)
+    this.outlineThickness = (150 * window.devicePixelRatio * zoom) / maxDim;
+    this.thickenPass.setThickness(this.outlineThickness);
+  }
+
+  // Calls 'f' with the camera framing the mesh (as currently rotated) tightly,
+  // for an image of the given width. 'f' gets the height of the image and the
+  // thickness of the outline in the image (in pixels, keeping the same
+  // thickness relative to the mesh as on the canvas).
+  private framed<T>(
+    width: number,
+    f: (image: { height: number; thickness: number }) => T,
+  ): T {
+    this.mesh.updateMatrixWorld();
+    const bounds = computeProjectedBounds(
+      this.camera,
+      this.mesh.geometry.getAttribute("position"),
+      this.mesh.matrixWorld,
+    );
+
+    const margin =
+      IMAGE_MARGIN *
+      Math.max(bounds.right - bounds.left, bounds.top - bounds.bottom);
+    const viewWidth = bounds.right - bounds.left + 2 * margin;
+    const viewHeight = bounds.top - bounds.bottom + 2 * margin;
+
+    // Device pixels per unit, on the canvas & in the image
+    const canvasScale =
+      (this.canvasWidth * window.devicePixelRatio) /
+      (this.camera.right - this.camera.left);
+    const imageScale = width / viewWidth;
+    const thickness = (this.outlineThickness * imageScale) / canvasScale;
+
+    const saved = this.camera.clone();
+    this.camera.left = bounds.left - margin;
+    this.camera.right = bounds.right + margin;
+    this.camera.bottom = bounds.bottom - margin;
+    this.camera.top = bounds.top + margin;
+    this.camera.near = bounds.near;
+    this.camera.far = bounds.far;
+    this.camera.updateProjectionMatrix();
+
+    try {
+      return f({
+        height: Math.round((width * viewHeight) / viewWidth),
+        thickness,
+      });
+    } finally {
+      this.camera.copy(saved);
+      this.camera.updateProjectionMatrix();
+    }
   }
 
   render() {
     this.composer.render();
   }
+
+  // Renders the scene and returns it as a PNG data URL of the given width (with
+  // the canvas' aspect ratio), e.g. for thumbnails
+  snapshot(width: number): string {
+    // NOTE: the drawing buffer is only valid until the browser composites the
+    // page, so we copy it right after rendering
+    this.render();
+
+    const snapshot = document.createElement("canvas");
+    snapshot.width = width;
+    snapshot.height = Math.round(
+      (width * this.canvas.height) / this.canvas.width,
+    );
+    snapshot
+      .getContext("2d")!
+      .drawImage(this.canvas, 0, 0, snapshot.width, snapshot.height);
+
+    return snapshot.toDataURL("image/png");
+  }
+
+  // Renders the mesh (as currently rotated) offscreen, framed tightly and on a
+  // transparent background, and returns it as a PNG of the given width (e.g.
+  // for product pictures)
+  renderImage(width: number): Promise<Blob> {
+    const pixels = this.framed(width, ({ height, thickness }) => {
+      this.composer.renderToScreen = false;
+      this.composer.setPixelRatio(1);
+      this.composer.setSize(width, height);
+      this.thickenPass.setThickness(thickness);
+
+      try {
+        this.composer.render();
+
+        // NOTE: the last pass wrote to the write buffer, which was then swapped
+        const pixels = new ImageData(width, height);
+        const rows = new Uint8Array(width * height * 4);
+        this.renderer.readRenderTargetPixels(
+          this.composer.readBuffer,
+          0,
+          0,
+          width,
+          height,
+          rows,
+        );
+
+        // The rows are read bottom to top, with premultiplied alpha
+        for (let y = 0; y < height; y++) {
+          for (let x = 0; x < width; x++) {
+            const from = ((height - 1 - y) * width + x) * 4;
+            const to = (y * width + x) * 4;
+            const alpha = rows[from + 3];
+            for (let c = 0; c < 3; c++) {
+              pixels.data[to + c] =
+                alpha === 0 ? 0 : Math.min(255, (rows[from + c] * 255) / alpha);
+            }
+            pixels.data[to + 3] = alpha;
+          }
+        }
+        return pixels;
+      } finally {
+        this.composer.renderToScreen = true;
+        this.composer.setPixelRatio(window.devicePixelRatio);
+        this.composer.setSize(this.canvasWidth, this.canvasHeight);
+        this.thickenPass.setThickness(this.outlineThickness);
+      }
+    });
+
+    const image = document.createElement("canvas");
+    image.width = pixels.width;
+    image.height = pixels.height;
+    image.getContext("2d")!.putImageData(pixels, 0, 0);
+
+    return new Promise((resolve, reject) =>
+      image.toBlob(
+        (blob) =>
+          blob === null
+            ? reject(new Error("Could not encode PNG"))
+            : resolve(blob),
+        "image/png",
+      ),
+    );
+  }
+
+  // Renders the geometry in place of the mesh's (e.g. the model as printed,
+  // whatever is shown) like renderImage()
+  renderGeometry(geometry: THREE.BufferGeometry, width: number): Promise<Blob> {
+    const [shown, children] = [this.mesh.geometry, [...this.mesh.children]];
+    this.mesh.geometry = geometry;
+    this.mesh.clear(); // e.g. highlights, which don't match the geometry
+
+    try {
+      return this.renderImage(width);
+    } finally {
+      this.mesh.geometry = shown;
+      children.forEach((child) => this.mesh.add(child));
+    }
+  }
+
+  // Draws the mesh (as currently rotated) as vector lines, framed like
+  // renderImage(), and returns it as an SVG of the given width (e.g. for
+  // assembly sheets)
+  drawLines(width: number): string {
+    return this.framed(width, ({ height, thickness }) =>
+      lineDrawing(this.renderer, this.scene, this.camera, this.mesh, {
+        width,
+        height,
+        strokeWidth: thickness,
+      }),
+    );
+  }
 }
 
 // Compute min & max of the verticies' projection onto the camera plane (coordinates in the
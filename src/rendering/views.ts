@@ -0,0 +1,48 @@
+// Views of the model: where the camera looks at the model from, and how far it
+// is zoomed in & panned (see Renderer.setView)
+
+export type View = {
+  azimuth: number; // around the Z axis, in radians
+  elevation: number; // above the horizontal plane (below if negative), in radians
+  zoom: number; // how many times larger than framed (see centerCameraAround)
+  pan: [number, number]; // offset of the model, as a ratio of the (zoomed) view
+};
+
+// The steepest the camera looks down (or up) at the model. Looking exactly
+// down the Z axis (the camera's up) would leave the camera's roll undefined.
+export const MAX_ELEVATION = Math.PI / 2 - 1e-3;
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 8;
+
+// The view the page starts with, looking down on the front of the model
+export const DEFAULT_VIEW: View = {
+  azimuth: Math.PI / 4,
+  elevation: Math.atan2(230, 300 * Math.SQRT2),
+  zoom: 1,
+  pan: [0, 0],
+};
+
+export type StandardView = "front" | "top" | "isometric" | "bottom";
+
+export const STANDARD_VIEWS: Record<
+  StandardView,
+  { label: string; view: View }
+> = {
+  front: {
+    label: "Front",
+    view: { ...DEFAULT_VIEW, elevation: 0 },
+  },
+  top: {
+    label: "Top",
+    view: { ...DEFAULT_VIEW, elevation: MAX_ELEVATION },
+  },
+  isometric: {
+    label: "Isometric",
+    view: { ...DEFAULT_VIEW, elevation: Math.atan(1 / Math.SQRT2) },
+  },
+  bottom: {
+    label: "Bottom",
+    view: { ...DEFAULT_VIEW, elevation: -MAX_ELEVATION },
+  },
+};
@@ -0,0 +1,56 @@
+import type {
+  RequestKind,
+  RequestMessage,
+  ResponseMessage,
+  Requests,
+} from "./protocol";
+
+// Sends requests to the model worker (see ./index.ts) and matches responses
+// to requests
+export class ModelWorker {
+  private worker = new Worker(new URL("./index.ts", import.meta.url), {
+    type: "module",
+  });
+
+  private nextId = 0;
+  private waiting = new Map<number, (response: ResponseMessage) => void>();
+
+  constructor() {
+    this.worker.addEventListener(
+      "message",
+      (e: MessageEvent<ResponseMessage>) => {
+        const resolve = this.waiting.get(e.data.id);
+        this.waiting.delete(e.data.id);
+        resolve?.(e.data);
+      },
+    );
+  }
+
+  // Sends a request to the worker. Resolves to undefined if the request was
+  // cancelled, i.e. replaced by a newer request of the same kind before it
+  // was handled.
+  async request<K extends RequestKind>(
+    kind: K,
+    request: Requests[K]["request"],
+  ): Promise<Requests[K]["response"] | undefined> {
+    const id = this.nextId++;
+    const message = { id, kind, ...request } as RequestMessage;
+
+    const response = await new Promise<ResponseMessage>((resolve) => {
+      this.waiting.set(id, resolve);
+      this.worker.postMessage(message);
+    });
+
+    if (response.status === "error") {
+      throw new Error(response.message);
+    }
+
+    if (response.status === "cancelled") {
+      return undefined;
+    }
+
+    // NOTE: the worker always responds with the result matching the request's
+    // kind
+    return response.result as Requests[K]["response"];
+  }
+}
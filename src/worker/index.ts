@@ -0,0 +1,172 @@
+import manifold_wasm from "manifold-3d/manifold.wasm?url";
+
+import {
+  vaseParts,
+  arrange,
+  partPlacements,
+  composeParts,
+  cutAway,
+  setManifoldWasmUrl,
+  type Part,
+  type VaseParams,
+} from "../model/manifold";
+import { exportModel, meshPositions } from "../model/export";
+import { analyze } from "../model/analysis";
+import { modelVolumes } from "../model/estimate";
+import { read3mf } from "../model/import";
+import type {
+  RequestKind,
+  RequestMessage,
+  ResponseMessage,
+  Requests,
+} from "./protocol";
+
+// The model worker: generates & exports the models off the main thread (see
+// ./protocol.ts)
+
+setManifoldWasmUrl(manifold_wasm);
+
+// The parts for the latest parameters, for a given use (as printed for the
+// preview & analyses, or as exported)
+const cachedParts: Partial<
+  Record<"printed" | "exported", { key: string; parts: Promise<Part[]> }>
+> = {};
+
+function parts(
+  params: VaseParams,
+  use: "printed" | "exported",
+): Promise<Part[]> {
+  const key = JSON.stringify(params);
+  const cached = cachedParts[use];
+  if (cached?.key === key) {
+    return cached.parts;
+  }
+
+  const parts = vaseParts(params, { preview: use === "printed" });
+  cachedParts[use] = { key, parts };
+  return parts;
+}
+
+// The parts that are not hidden
+const shownParts = (parts: Part[], hidden: string[]): Part[] =>
+  parts.filter(({ name }) => !hidden.includes(name));
+
+// Handles a request, returning the result and the buffers that can be
+// transferred (instead of copied) to the page
+async function handle(request: RequestMessage): Promise<{
+  result: Requests[RequestKind]["response"];
+  transfer: Transferable[];
+}> {
+  switch (request.kind) {
+    case "preview": {
+      const printed = await parts(request.params, "printed");
+      const shown = shownParts(printed, request.hidden);
+      const model = await composeParts(arrange(shown, request.arrangement));
+      const { manifold, faces } =
+        request.cutaway === undefined
+          ? { manifold: model, faces: new Float32Array() }
+          : cutAway(model, request.cutaway);
+      const positions = meshPositions(manifold);
+      const placements = partPlacements(shown, request.arrangement);
+      return {
+        result: {
+          positions,
+          placements: Object.fromEntries(
+            shown.map(({ name }, i) => [name, placements[i]]),
+          ),
+          cutFaces: faces,
+        },
+        transfer: [positions.buffer, faces.buffer],
+      };
+    }
+    case "thumbnail": {
+      const printed = await parts(request.params, "printed");
+      const model = await composeParts(arrange(printed, "assembled"));
+      const positions = meshPositions(model);
+      return { result: positions, transfer: [positions.buffer] };
+    }
+    case "export": {
+      const { params, format, thumbnail, unit } = request;
+      const exported = await parts(params, "exported");
+      return {
+        result: exportModel(arrange(exported, "print"), format, {
+          params,
+          thumbnail,
+          unit,
+        }),
+        transfer: [],
+      };
+    }
+    case "analysis": {
+      const { params, settings, arrangement, hidden } = request;
+      const shown = shownParts(await parts(params, "printed"), hidden);
+      const analysis = await analyze(
+        shown,
+        params,
+        settings,
+        partPlacements(shown, arrangement),
+      );
+      return { result: analysis, transfer: [analysis.highlight.buffer] };
+    }
+    case "volumes": {
+      const { params } = request;
+      const volumes = await modelVolumes(
+        await parts(params, "printed"),
+        params,
+      );
+      return { result: volumes, transfer: [] };
+    }
+    case "import": {
+      const imported = read3mf(request.data);
+      return {
+        result: imported,
+        transfer: imported.kind === "mesh" ? [imported.positions.buffer] : [],
+      };
+    }
+  }
+}
+
+const respond = (response: ResponseMessage, transfer: Transferable[] = []) =>
+  self.postMessage(response, { transfer });
+
+// The latest request of each kind, waiting to be handled
+const pending = new Map<RequestKind, RequestMessage>();
+let running = false;
+
+self.addEventListener("message", (e: MessageEvent<RequestMessage>) => {
+  const request = e.data;
+
+  const stale = pending.get(request.kind);
+  if (stale !== undefined) {
+    respond({ id: stale.id, status: "cancelled" });
+  }
+
+  pending.set(request.kind, request);
+
+  if (!running) {
+    run();
+  }
+});
+
+// Handles the pending requests one at a time, until there are none left
+async function run() {
+  running = true;
+
+  while (pending.size > 0) {
+    const [kind, request] = pending.entries().next().value!;
+    pending.delete(kind);
+
+    try {
+      const { result, transfer } = await handle(request);
+      respond({ id: request.id, status: "done", result }, transfer);
+    } catch (e) {
+      respond({ id: request.id, status: "error", message: String(e) });
+    }
+
+    // Let new messages in, so that stale requests get replaced before the
+    // next one is handled
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  running = false;
+}
@@ -0,0 +1,80 @@
+import type {
+  Arrangement,
+  Cutaway,
+  Placement,
+  VaseParams,
+} from "../model/manifold";
+import type { ExportFormat } from "../model/export";
+import type { Analysis, AnalysisSettings } from "../model/analysis";
+import type { Volumes } from "../model/estimate";
+import type { Imported } from "../model/import";
+import type { Unit } from "../model/units";
+
+// Messages exchanged between the page and the model worker.
+//
+// The worker only keeps the latest pending request of each kind: when a new
+// request comes in before the previous one (of the same kind) was started,
+// the previous one is cancelled.
+
+export type Requests = {
+  // The model as printed, as triangles (x, y, z for each vertex), with the
+  // parts placed as requested (and without the hidden parts, by name) and cut
+  // away if requested. The placements of the shown parts are returned by name,
+  // and the faces of the cut as triangles (if any).
+  preview: {
+    request: {
+      params: VaseParams;
+      arrangement: Arrangement;
+      hidden: string[];
+      cutaway?: Cutaway;
+    };
+    response: {
+      positions: Float32Array;
+      placements: Record<string, Placement>;
+      cutFaces: Float32Array;
+    };
+  };
+  // The model put together as printed, whatever the preview shows, as
+  // triangles (e.g. to render the thumbnail of exported files)
+  thumbnail: {
+    request: { params: VaseParams };
+    response: Float32Array;
+  };
+  // The model, exported for download (with the thumbnail, as PNG, if any), in
+  // the given unit (when the format has units)
+  export: {
+    request: {
+      params: VaseParams;
+      format: ExportFormat;
+      thumbnail?: Uint8Array;
+      unit: Unit;
+    };
+    response: Blob;
+  };
+  // The analysis of the shown parts, highlighted on the parts placed as
+  // requested
+  analysis: {
+    request: {
+      params: VaseParams;
+      settings: AnalysisSettings;
+      arrangement: Arrangement;
+      hidden: string[];
+    };
+    response: Analysis;
+  };
+  volumes: { request: { params: VaseParams }; response: Volumes };
+  // A 3MF file read back (see ../model/import.ts)
+  import: { request: { data: Uint8Array }; response: Imported };
+};
+
+export type RequestKind = keyof Requests;
+
+export type RequestMessage = {
+  [K in RequestKind]: { id: number; kind: K } & Requests[K]["request"];
+}[RequestKind];
+
+export type ResponseMessage = { id: number } & (
+  | { status: "done"; result: Requests[RequestKind]["response"] }
+  | { status: "cancelled" }
+  | { status: "error"; message: string }
+);